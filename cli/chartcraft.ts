@@ -0,0 +1,247 @@
+// chartcraft: generates chart pages from data files without opening the app.
+//
+//   chartcraft data.csv --type line --title "Sales" -o out.html
+//   chartcraft "reports/*.csv" --out-dir charts --offline
+//   chartcraft --spec charts.yaml
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import fg from 'fast-glob';
+import { parse as parseYaml } from 'yaml';
+import * as XLSX from 'xlsx';
+import {
+  applyTransforms,
+  ColumnMapping,
+  EditorState,
+  PageTheme,
+  parseInput,
+  renderChart,
+  restoreEditorState,
+  themePresets,
+  validateEditorState,
+} from '../src/lib';
+import { delimiterForKind, detectFileKind, sheetToCsv } from '../src/utils/fileImport';
+
+// Exit codes: 1 when any chart failed, 2 when the command itself is wrong.
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const usage = `Usage: chartcraft [inputs...] [options]
+
+Inputs are files or glob patterns (CSV, TSV, JSON, XLSX).
+
+Options:
+  -t, --type <type>        bar, line, pie, doughnut, radar, bubble, scatter, polarArea
+      --title <title>      Chart title (default: the file name)
+  -o, --output <file>      Output file; "{name}" is replaced by the input's name
+  -d, --out-dir <dir>      Directory for outputs (default: next to each input)
+  -s, --spec <file>        JSON or YAML spec with chart settings, see below
+      --delimiter <char>   CSV delimiter (default: auto-detect)
+      --locale <locale>    Number format: auto, en, de, fr, ch
+      --json-path <path>   Path to the records in JSON input, e.g. data.items
+      --labels <column>    Label column
+      --series <columns>   Comma-separated value columns to plot
+      --sheet <name>       Worksheet to read from workbooks (default: the first)
+      --theme <name>       Theme preset: ${themePresets.map(theme => theme.name.split(' ')[0].toLowerCase()).join(', ')}
+      --offline            Inline Chart.js so pages work without network access
+      --integrity          Add a Subresource Integrity hash to the CDN script
+  -h, --help               Show this help
+
+A spec file holds one chart, a list of charts, or { defaults, charts }. Each
+chart takes "input" and "output" plus any saved-project setting, e.g.
+
+  defaults: { theme: dark, chartType: line }
+  charts:
+    - { input: "sales/*.csv", output: "out/{name}.html", title: Sales }
+`;
+
+class UsageError extends Error {}
+
+// A chart in a spec file: project settings plus where to read and write.
+type ChartSpec = Omit<Partial<EditorState>, 'input' | 'theme'> & {
+  input?: string | string[];
+  output?: string;
+  outDir?: string;
+  sheet?: string;
+  // Value columns to plot; any other column is left out
+  series?: string[];
+  // A preset name, or a full theme as saved by the app
+  theme?: string | Partial<PageTheme>;
+};
+
+// Spec fields the CLI resolves itself instead of passing them on as project state
+const fileKeys = ['input', 'output', 'outDir', 'sheet', 'series', 'theme'];
+
+interface SpecFile {
+  defaults?: ChartSpec;
+  charts: ChartSpec[];
+}
+
+const readSpecFile = async (path: string): Promise<SpecFile> => {
+  const text = await readFile(path, 'utf8');
+  const value = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  if (Array.isArray(value)) return { charts: value };
+  if (value && Array.isArray(value.charts)) return value;
+  if (value && typeof value === 'object') return { charts: [value] };
+  throw new UsageError(`${path} does not describe any charts.`);
+};
+
+const findTheme = (name: string) => {
+  const needle = name.trim().toLowerCase();
+  const theme = themePresets.find(preset => preset.name.toLowerCase().split(' ')[0] === needle);
+  if (!theme) throw new UsageError(`Unknown theme "${name}".`);
+  return theme;
+};
+
+const resolveTheme = (theme: ChartSpec['theme']): PageTheme | undefined =>
+  typeof theme === 'string' ? findTheme(theme) : theme && { ...themePresets[0], ...theme };
+
+// Inputs become CSV/JSON text the same way files dropped on the app do.
+const readInput = async (path: string, sheet?: string) => {
+  const buffer = await readFile(path);
+  const kind = detectFileKind(path, buffer.subarray(0, 512));
+  if (kind === 'xlsx') {
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+    return { text: await sheetToCsv(workbook, sheet || workbook.SheetNames[0]), delimiter: ',' as const };
+  }
+  return { text: buffer.toString('utf8').replace(/^\uFEFF/, ''), delimiter: delimiterForKind(kind) };
+};
+
+// "reports/q1.sales.csv" -> "q1.sales"
+const inputName = (path: string) => basename(path, extname(path));
+
+const outputPath = (input: string, spec: ChartSpec, count: number) => {
+  if (spec.output) {
+    if (count > 1 && !spec.output.includes('{name}')) {
+      throw new UsageError(`"${spec.output}" would be overwritten by each input; add {name} to it.`);
+    }
+    return join(spec.outDir || '', spec.output.replace(/\{name\}/g, inputName(input)));
+  }
+  return join(spec.outDir || dirname(input), `${inputName(input)}.html`);
+};
+
+// The app enables every new numeric column, so list the rest as disabled
+const selectSeries = (text: string, state: Partial<EditorState>, keys: string[]): ColumnMapping => {
+  const { delimiter, numberLocale, jsonPath, transformOptions, columnMapping } = restoreEditorState(state);
+  const parsed = applyTransforms(
+    parseInput(text, { delimiter, numberLocale, jsonPath }),
+    transformOptions,
+    columnMapping
+  );
+  const columns = Object.keys(parsed.data[0] || {});
+  const missing = keys.find(key => !columns.includes(key));
+  if (missing) throw new Error(`Column "${missing}" not found. Columns are: ${columns.join(', ')}.`);
+  return {
+    labelKey: columnMapping.labelKey,
+    series: columns.map(key => ({ key, enabled: keys.includes(key), type: '', axis: 'y' })),
+  };
+};
+
+const renderFile = async (input: string, output: string, spec: ChartSpec) => {
+  const { text, delimiter } = await readInput(input, spec.sheet);
+  const settings: Partial<EditorState> = Object.fromEntries(
+    Object.entries(spec).filter(([key]) => !fileKeys.includes(key))
+  );
+  const state: Partial<EditorState> = { title: inputName(input), delimiter, ...settings, theme: resolveTheme(spec.theme) };
+  // The app would quietly fall back to defaults; a typo in a spec should be reported instead
+  const { invalid } = validateEditorState(state);
+  if (invalid.length > 0) throw new Error(`Invalid settings: ${invalid.join(', ')}.`);
+  if (spec.series) state.columnMapping = selectSeries(text, state, spec.series);
+  const { html } = await renderChart(text, state);
+  await mkdir(dirname(resolve(output)), { recursive: true });
+  await writeFile(output, html);
+};
+
+// Flags apply on top of every chart in the spec file.
+const specFromFlags = (values: ReturnType<typeof parseCommandLine>['values']): ChartSpec => {
+  const spec: ChartSpec = {};
+  if (values.type) spec.chartType = values.type;
+  if (values.title) spec.title = values.title;
+  if (values.output) spec.output = values.output;
+  if (values['out-dir']) spec.outDir = values['out-dir'];
+  if (values.delimiter) spec.delimiter = values.delimiter === '\\t' ? '\t' : (values.delimiter as ChartSpec['delimiter']);
+  if (values.locale) spec.numberLocale = values.locale as EditorState['numberLocale'];
+  if (values['json-path']) spec.jsonPath = values['json-path'];
+  if (values.sheet) spec.sheet = values.sheet;
+  if (values.theme) spec.theme = values.theme;
+  if (values.labels) spec.columnMapping = { labelKey: values.labels, series: [] };
+  if (values.series) spec.series = values.series.split(',').map(key => key.trim()).filter(Boolean);
+  if (values.offline || values.integrity) {
+    spec.exportOptions = { mode: values.offline ? 'offline' : 'cdn', integrity: Boolean(values.integrity) };
+  }
+  return spec;
+};
+
+const parseCommandLine = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      type: { type: 'string', short: 't' },
+      title: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string', short: 'd' },
+      spec: { type: 'string', short: 's' },
+      delimiter: { type: 'string' },
+      locale: { type: 'string' },
+      'json-path': { type: 'string' },
+      labels: { type: 'string' },
+      series: { type: 'string' },
+      sheet: { type: 'string' },
+      theme: { type: 'string' },
+      offline: { type: 'boolean' },
+      integrity: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+const main = async (args: string[]) => {
+  const { values, positionals } = parseCommandLine(args);
+  if (values.help) {
+    process.stdout.write(usage);
+    return 0;
+  }
+
+  const flags = specFromFlags(values);
+  const specFile: SpecFile = values.spec ? await readSpecFile(values.spec) : { charts: [{}] };
+  // Spec inputs and outputs are relative to the spec file, like any config file
+  const baseDir = values.spec ? dirname(values.spec) : '.';
+  const jobs: { input: string; output: string; spec: ChartSpec }[] = [];
+
+  for (const chart of specFile.charts) {
+    const spec: ChartSpec = { ...specFile.defaults, ...chart, ...flags };
+    const patterns = positionals.length ? positionals : [chart.input || []].flat().map(pattern => join(baseDir, pattern));
+    if (patterns.length === 0) throw new UsageError('No input files given.');
+    const inputs = await fg(patterns, { onlyFiles: true, unique: true });
+    if (inputs.length === 0) throw new UsageError(`No files match ${patterns.join(', ')}.`);
+    if (!flags.output && !flags.outDir && spec.output) spec.output = join(baseDir, spec.output);
+    if (!flags.outDir && chart.outDir) spec.outDir = join(baseDir, chart.outDir);
+    inputs.sort().forEach(input => jobs.push({ input, output: outputPath(input, spec, inputs.length), spec }));
+  }
+
+  // Keep going after a bad file so one typo doesn't hide the other results
+  let failed = 0;
+  for (const { input, output, spec } of jobs) {
+    try {
+      await renderFile(input, output, spec);
+      process.stdout.write(`${input} -> ${output}\n`);
+    } catch (err) {
+      failed++;
+      process.stderr.write(`${input}: ${err instanceof Error ? err.message : String(err)}\n`);
+    }
+  }
+  if (failed > 0) process.stderr.write(`${failed} of ${jobs.length} charts failed.\n`);
+  return failed > 0 ? EXIT_FAILED : 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    const usageError = err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`chartcraft: ${err instanceof Error ? err.message : String(err)}\n`);
+    if (usageError) process.stderr.write('Run chartcraft --help for usage.\n');
+    process.exitCode = usageError ? EXIT_USAGE : EXIT_FAILED;
+  }
+);
@@ -1,30 +1,120 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Copy, Download, AlertCircle, CheckCircle, FileText, BarChart3, LineChart, PieChart, TrendingUp } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Copy, Download, AlertCircle, AlertTriangle, CheckCircle, FileText, BarChart3, Lightbulb, LineChart, PieChart, Redo2, Share2, Table, TrendingUp, Undo2 } from 'lucide-react';
+import AnnotationsPanel, { AnnotationAxisKind } from './components/AnnotationsPanel';
+import ChartOptionsPanel from './components/ChartOptionsPanel';
+import DataProfilePanel from './components/DataProfilePanel';
+import ColumnMappingPanel from './components/ColumnMappingPanel';
+import DataGrid from './components/DataGrid';
+import ProjectLibraryPanel from './components/ProjectLibraryPanel';
+import DashboardPanel from './components/DashboardPanel';
+import ExportMenu from './components/ExportMenu';
+import FileDropZone, { ImportedFile } from './components/FileDropZone';
+import ThemePanel from './components/ThemePanel';
+import TimeAxisPanel from './components/TimeAxisPanel';
+import TransformPanel from './components/TransformPanel';
+import {
+  ChartAnnotation,
+  ChartConfig,
+  ChartOptions,
+  ChartProject,
+  ColumnInfo,
+  ColumnMapping,
+  Dashboard,
+  EditorState,
+  ExportOptions,
+  PageTheme,
+  PointMapping,
+  TimeOptions,
+  TransformOptions,
+} from './types';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { isCancelled, useChartPipeline } from './hooks/useChartPipeline';
+import { defaultEditorState } from './utils/editorState';
+import {
+  createProjectFile,
+  createShareLink,
+  hasSharedChart,
+  isProjectFileName,
+  projectFileName,
+  readProjectFile,
+  readShareFragment,
+} from './utils/shareLink';
+import {
+  createProjectId,
+  deleteProject,
+  listProjects,
+  loadDashboard,
+  loadSession,
+  saveDashboard,
+  saveProject,
+  saveSession,
+} from './utils/projectStore';
+import { RawTable, readTable, writeTable } from './utils/table';
+import { reconcileColumnMapping } from './utils/columns';
+import { ChartSettings } from './utils/chartConfig';
+import { PipelineResult, pipelineStages } from './utils/chartPipeline';
+import { generateDashboardHtml, generateHtmlSnippet } from './utils/htmlPage';
+import { buildDashboardCharts, defaultDashboard } from './utils/dashboard';
+import { getAxesKind, isPointChart, supportsCombo } from './utils/chartTypes';
+import { ChartWarning, isSliceChart } from './utils/validation';
+import { ChartSuggestion, recommendChartType, suggestChartTypes } from './utils/profile';
+import { createPreviewDocument, PREVIEW_READY, postPreviewConfig } from './utils/preview';
+import { loadSavedThemes, storeSavedThemes } from './utils/themes';
+import {
+  createChartJsConfigJson,
+  createEmbedSnippet,
+  createReactComponent,
+  defaultImageSize,
+  downloadBlob,
+  ExportFormat,
+  exportPdf,
+  exportPng,
+  exportSvg,
+  ImageSize,
+} from './utils/exporters';
+import { loadChartJsScript } from './utils/vendorScripts';
+import { NumberLocale, numberLocaleOptions } from './utils/coerce';
+import { Delimiter, delimiterOptions } from './utils/csv';
 
-interface DataObject {
-  [key: string]: string | number;
-}
-
-interface ParsedData {
-  type: 'csv' | 'json';
-  data: DataObject[];
-}
-
-interface ChartConfig {
-  type: string;
-  title: string;
-  labels: string[];
-  datasets: any[];
-}
+// Inputs past this many characters (roughly 20k CSV rows) show progress and a Cancel button while the worker runs
+const LARGE_INPUT = 500_000;
+// Line and scatter charts past this many rows suggest turning on downsampling
+const DOWNSAMPLE_SUGGESTION_ROWS = 5000;
+const noColumns: ColumnInfo[] = [];
+const noLabels: string[] = [];
 
 function App() {
-  const [input, setInput] = useState('');
-  const [chartType, setChartType] = useState('bar');
-  const [title, setTitle] = useState('My Chart');
+  const [input, setInput] = useState(defaultEditorState.input);
+  const [chartType, setChartType] = useState(defaultEditorState.chartType);
+  const [title, setTitle] = useState(defaultEditorState.title);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [generatedHtml, setGeneratedHtml] = useState('');
-  const [showPreview, setShowPreview] = useState(false);
+  const [generatedConfig, setGeneratedConfig] = useState<ChartConfig | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize>(defaultImageSize);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [dataView, setDataView] = useState<'text' | 'grid'>('text');
+  const [previewDocument, setPreviewDocument] = useState('');
+  const [previewJson, setPreviewJson] = useState('');
+  const [pointMapping, setPointMapping] = useState<PointMapping>(defaultEditorState.pointMapping);
+  const [delimiter, setDelimiter] = useState<Delimiter | 'auto'>(defaultEditorState.delimiter);
+  const [numberLocale, setNumberLocale] = useState<NumberLocale>(defaultEditorState.numberLocale);
+  const [jsonPath, setJsonPath] = useState(defaultEditorState.jsonPath);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(defaultEditorState.columnMapping);
+  const [transformOptions, setTransformOptions] = useState<TransformOptions>(defaultEditorState.transformOptions);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(defaultEditorState.exportOptions);
+  const [chartOptions, setChartOptions] = useState<ChartOptions>(defaultEditorState.chartOptions);
+  const [theme, setTheme] = useState<PageTheme>(defaultEditorState.theme);
+  const [savedThemes, setSavedThemes] = useState<PageTheme[]>(loadSavedThemes);
+  const [seriesColors, setSeriesColors] = useState<Record<string, string>>(defaultEditorState.seriesColors);
+  const [timeOptions, setTimeOptions] = useState<TimeOptions>(defaultEditorState.timeOptions);
+  const [annotations, setAnnotations] = useState<ChartAnnotation[]>(defaultEditorState.annotations);
+  const [projects, setProjects] = useState<ChartProject[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [dashboard, setDashboard] = useState<Dashboard>(defaultDashboard);
+  const [dashboardExporting, setDashboardExporting] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const previewRef = useRef<HTMLIFrameElement>(null);
 
@@ -39,273 +129,168 @@ function App() {
     { value: 'polarArea', label: 'Polar Area Chart', icon: PieChart },
   ];
 
-  const parseInput = (text: string): ParsedData => {
-    text = text.trim();
-    
-    // Try JSON first
-    try {
-      const parsed = JSON.parse(text);
-      if (Array.isArray(parsed) && parsed.length > 0 && typeof parsed[0] === 'object') {
-        return { type: 'json', data: parsed };
-      }
-    } catch (e) {
-      // Continue to CSV parsing
+  // Typing in a large paste would otherwise re-parse on every keystroke
+  const debouncedInput = useDebouncedValue(input, input.length > 20000 ? 600 : 150);
+
+  const chartSettings: ChartSettings = useMemo(
+    () => ({
+      chartType,
+      title,
+      pointMapping,
+      columnMapping,
+      chartOptions,
+      theme,
+      seriesColors,
+      timeOptions,
+      transformOptions,
+      annotations,
+    }),
+    [chartType, title, pointMapping, columnMapping, chartOptions, theme, seriesColors, timeOptions, transformOptions, annotations]
+  );
+
+  // Every input goes through the worker; its last result stays on screen while the next run is going
+  const [workerResult, setWorkerResult] = useState<PipelineResult | null>(null);
+  const { run: runPipeline, cancel: cancelPipeline, stage: previewStage } = useChartPipeline();
+  // Generate runs in its own worker, so a live preview run starting meanwhile can't cancel it
+  const { run: runGenerate, cancel: cancelGenerate, stage: generateStage } = useChartPipeline();
+  const [generating, setGenerating] = useState(false);
+  // Dashboard charts are built one by one in a third worker, off the main thread like the rest
+  const { run: runDashboardChart } = useChartPipeline();
+  const pipelineStage = generateStage || previewStage;
+  const pipelineStepIndex = pipelineStages.findIndex(step => step.stage === pipelineStage);
+  const hasInput = debouncedInput.trim() !== '';
+
+  useEffect(() => {
+    if (!hasInput) {
+      setWorkerResult(null);
+      return;
     }
+    runPipeline({
+      ...defaultEditorState,
+      ...chartSettings,
+      input: debouncedInput,
+      delimiter,
+      numberLocale,
+      jsonPath,
+    })
+      .then(setWorkerResult)
+      .catch(err => {
+        if (isCancelled(err)) return;
+        setWorkerResult({ sourceColumns: [], computedColumns: [], data: null, config: null, error: err.message });
+      });
+  }, [hasInput, runPipeline, chartSettings, debouncedInput, delimiter, numberLocale, jsonPath]);
 
-    // Parse as CSV - improved parsing
-    const lines = text.split(/\r?\n/).filter(line => line.trim());
-    if (lines.length < 2) {
-      throw new Error('CSV must have at least a header row and one data row.');
+  // Only read as text cells while the grid is open. Read from the text itself,
+  // not the debounced copy, so a quick second edit builds on the first.
+  const rawTable = useMemo(() => {
+    if (dataView !== 'grid' || !input.trim()) return null;
+    try {
+      return readTable(input, { delimiter, jsonPath });
+    } catch {
+      return null;
     }
+  }, [dataView, input, delimiter, jsonPath]);
 
-    // Better CSV parsing with quoted fields support
-    const parseCSVLine = (line: string): string[] => {
-      const result = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      result.push(current.trim());
-      return result;
-    };
+  const handleTableChange = (table: RawTable) => {
+    setInput(writeTable(table));
+    // The rewritten JSON is a top-level array, so an old path would no longer match
+    if (table.format === 'json') setJsonPath('');
+  };
 
-    const headers = parseCSVLine(lines[0]).map(h => h.replace(/"/g, '').trim());
-    const rows = lines.slice(1).map(line => parseCSVLine(line).map(cell => cell.replace(/"/g, '').trim()));
+  const rawColumns = workerResult?.sourceColumns || noColumns;
+  const transformColumns = workerResult?.computedColumns || noColumns;
+  const inputColumns = workerResult?.data?.columns || noColumns;
 
-    const data = rows.map(row => {
-      const obj: DataObject = {};
-      headers.forEach((header, index) => {
-        const value = row[index] || '';
-        // Try to convert to number if possible
-        const numValue = Number(value);
-        obj[header] = !isNaN(numValue) && value !== '' ? numValue : value;
-      });
-      return obj;
-    });
+  const effectiveMapping = reconcileColumnMapping(columnMapping, inputColumns);
+  const enabledSeries = effectiveMapping.series.filter(s => s.enabled).map(s => s.key);
 
-    return { type: 'csv', data };
-  };
+  const profile = workerResult?.data?.profile || null;
+  const suggestions = profile ? suggestChartTypes(profile, effectiveMapping) : null;
+  const recommendation = profile && suggestions ? recommendChartType(profile, suggestions) : null;
+  const showRecommendation =
+    recommendation !== null &&
+    (recommendation.type !== chartType ||
+      (recommendation.labelKey !== undefined && recommendation.labelKey !== effectiveMapping.labelKey));
 
-  const generateColors = (count: number) => {
-    const colors = [];
-    for (let i = 0; i < count; i++) {
-      const hue = (i * 137.5) % 360; // Golden angle approximation
-      colors.push({
-        background: `hsla(${hue}, 70%, 60%, 0.6)`,
-        border: `hsla(${hue}, 70%, 50%, 1)`,
-      });
-    }
-    return colors;
-  };
+  const rowCount = profile?.rows || 0;
+  const chartWarnings: ChartWarning[] = [
+    ...(workerResult?.data?.warnings || []),
+    ...((chartType === 'line' || chartType === 'scatter') &&
+    chartOptions.downsample === 'none' &&
+    rowCount > DOWNSAMPLE_SUGGESTION_ROWS
+      ? [
+          {
+            message: `${rowCount.toLocaleString()} rows: turn on downsampling in Chart Options to keep the chart responsive and the exported file small.`,
+          },
+        ]
+      : []),
+  ];
 
-  const createChartConfig = (parsedData: ParsedData): ChartConfig => {
-    const { data } = parsedData;
-    if (!data || data.length === 0) {
-      throw new Error('No data found.');
-    }
+  // Slices take their colors from the labels, so those are what the theme panel lists
+  const colorNames = isPointChart(chartType)
+    ? []
+    : isSliceChart(chartType)
+      ? workerResult?.data?.labels || []
+      : enabledSeries;
 
-    const keys = Object.keys(data[0]);
-    
-    if (keys.length < 2) {
-      throw new Error('Data must have at least 2 columns (labels and values).');
-    }
+  // Annotation x positions are entered the way the x axis reads them
+  const labelIsDate = inputColumns.find(column => column.key === effectiveMapping.labelKey)?.type === 'date';
+  const annotationAxis: AnnotationAxisKind = isPointChart(chartType)
+    ? 'number'
+    : supportsCombo(chartType) && timeOptions.enabled && labelIsDate
+      ? 'time'
+      : 'category';
+  // Past MAX_LABELS there are too many to pick from a list; they get typed instead
+  const annotationLabels = (annotationAxis === 'category' && workerResult?.data?.labels) || noLabels;
 
-    const labelKey = keys[0];
-    const numericKeys = keys.slice(1).filter(key => 
-      data.some(row => typeof row[key] === 'number' || (!isNaN(Number(row[key])) && row[key] !== ''))
-    );
+  const previewConfigJson = useMemo(
+    () => (workerResult?.config ? JSON.stringify(workerResult.config) : ''),
+    [workerResult]
+  );
+  const previewError = hasInput ? workerResult?.error || '' : '';
 
-    if (numericKeys.length === 0) {
-      throw new Error('No numeric columns found. At least one column must contain numeric values.');
-    }
+  // Errors leave the last good chart on screen instead of clearing the preview
+  useEffect(() => {
+    if (previewConfigJson) setPreviewJson(previewConfigJson);
+  }, [previewConfigJson]);
 
-    const labels = data.map(row => String(row[labelKey] || ''));
-    const colors = generateColors(numericKeys.length);
-    
-    const datasets = numericKeys.map((key, index) => ({
-      label: key,
-      data: data.map(row => {
-        const value = row[key];
-        return typeof value === 'number' ? value : Number(value) || 0;
-      }),
-      backgroundColor: colors[index].background,
-      borderColor: colors[index].border,
-      borderWidth: 2,
-      tension: chartType === 'line' ? 0.4 : undefined,
-    }));
-
-    return {
-      type: chartType,
-      title,
-      labels,
-      datasets,
+  useEffect(() => {
+    if (previewJson) postPreviewConfig(previewRef.current, previewJson);
+  }, [previewJson]);
+
+  const hasPreview = previewJson !== '';
+
+  // The preview document is built once; Chart.js is inlined so it never refetches.
+  useEffect(() => {
+    if (!hasPreview || previewDocument) return;
+    loadChartJsScript()
+      .then(source => setPreviewDocument(createPreviewDocument(source)))
+      .catch(() => setError('Could not load the chart preview.'));
+  }, [hasPreview, previewDocument]);
+
+  useEffect(() => {
+    // A freshly loaded preview (or a remounted iframe) asks for the current chart
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== previewRef.current?.contentWindow || event.data?.type !== PREVIEW_READY) return;
+      postPreviewConfig(previewRef.current, previewJson);
     };
-  };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [previewJson]);
 
-  const generateHtmlSnippet = (config: ChartConfig): string => {
-    const dataString = JSON.stringify(config, null, 2);
-    
-    return `<!DOCTYPE html>
-<html lang="en">
-  <head>
-    <meta charset="utf-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1">
-    <title>${config.title}</title>
-    <style>
-      body { 
-        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-        margin: 0; 
-        padding: 20px; 
-        background: #f8fafc; 
-      }
-      .container { 
-        max-width: 900px; 
-        margin: 0 auto; 
-        background: white; 
-        border-radius: 12px; 
-        box-shadow: 0 4px 6px -1px rgba(0,0,0,0.1); 
-        overflow: hidden;
-      }
-      .header {
-        padding: 24px;
-        background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-        color: white;
-        text-align: center;
-      }
-      .header h1 { margin: 0; font-size: 24px; font-weight: 600; }
-      .chart-container { padding: 24px; }
-      .download-btn {
-        display: inline-block;
-        margin-top: 16px;
-        padding: 8px 16px;
-        background: #3b82f6;
-        color: white;
-        text-decoration: none;
-        border-radius: 6px;
-        font-size: 14px;
-        transition: background 0.2s;
-        cursor: pointer;
-        border: none;
-      }
-      .download-btn:hover { background: #2563eb; }
-      #chart { max-width: 100%; height: auto; }
-    </style>
-  </head>
-  <body>
-    <div class="container">
-      <div class="header">
-        <h1>${config.title}</h1>
-      </div>
-      <div class="chart-container">
-        <canvas id="chart"></canvas>
-        <div style="text-align: center;">
-          <button id="download" class="download-btn">Download PNG</button>
-        </div>
-      </div>
-    </div>
+  const applySuggestion = (suggestion: ChartSuggestion) => {
+    setChartType(suggestion.type);
+    if (suggestion.labelKey) setColumnMapping({ ...effectiveMapping, labelKey: suggestion.labelKey });
+  };
 
-    <script src="https://cdnjs.cloudflare.com/ajax/libs/Chart.js/4.4.1/chart.umd.js"></script>
-
-    <script>
-      // Wait for Chart.js to load
-      document.addEventListener('DOMContentLoaded', function() {
-        // Chart configuration
-        const config = ${dataString};
-        
-        // Initialize chart
-        const ctx = document.getElementById('chart');
-        if (!ctx) {
-          console.error('Chart canvas not found');
-          return;
-        }
-
-        const chart = new Chart(ctx, {
-          type: config.type,
-          data: {
-            labels: config.labels,
-            datasets: config.datasets
-          },
-          options: {
-            responsive: true,
-            maintainAspectRatio: true,
-            plugins: {
-              legend: {
-                position: 'top',
-                labels: {
-                  usePointStyle: true,
-                  padding: 20
-                }
-              },
-              title: {
-                display: false
-              },
-              tooltip: {
-                backgroundColor: 'rgba(0,0,0,0.8)',
-                titleColor: '#fff',
-                bodyColor: '#fff',
-                borderColor: 'rgba(255,255,255,0.2)',
-                borderWidth: 1,
-                cornerRadius: 6,
-                displayColors: true
-              }
-            },
-            scales: config.type === 'pie' || config.type === 'doughnut' || config.type === 'radar' || config.type === 'polarArea' ? {} : {
-              y: {
-                beginAtZero: true,
-                grid: {
-                  color: 'rgba(0,0,0,0.05)'
-                },
-                ticks: {
-                  color: '#6b7280'
-                }
-              },
-              x: {
-                grid: {
-                  display: false
-                },
-                ticks: {
-                  color: '#6b7280'
-                }
-              }
-            }
-          }
-        });
-
-        // Download functionality
-        const downloadBtn = document.getElementById('download');
-        if (downloadBtn) {
-          downloadBtn.addEventListener('click', function(e) {
-            e.preventDefault();
-            try {
-              const link = document.createElement('a');
-              link.download = 'chart.png';
-              link.href = chart.toBase64Image('image/png', 1.0);
-              document.body.appendChild(link);
-              link.click();
-              document.body.removeChild(link);
-            } catch (error) {
-              console.error('Download failed:', error);
-              alert('Download failed. Please try again.');
-            }
-          });
-        }
-      });
-    </script>
-  </body>
-</html>`;
+  const selectSingleColumn = (key: string) => {
+    setColumnMapping({
+      ...effectiveMapping,
+      series: effectiveMapping.series.map(s => ({ ...s, enabled: s.key === key })),
+    });
   };
 
-  const handleGenerate = () => {
+  const handleGenerate = async () => {
     setError('');
     setSuccess('');
     
@@ -314,35 +299,36 @@ function App() {
       return;
     }
 
+    setGenerating(true);
     try {
-      const parsedData = parseInput(input);
-      const config = createChartConfig(parsedData);
-      const html = generateHtmlSnippet(config);
+      const result = await runGenerate(editorState);
+      setWorkerResult(result);
+      if (!result.config) throw new Error(result.error);
+      const config = result.config;
+      const chartJsSource = exportOptions.mode === 'offline' ? await loadChartJsScript() : undefined;
+      const html = generateHtmlSnippet(config, { chartJsSource, integrity: exportOptions.integrity });
       
       setGeneratedHtml(html);
+      setGeneratedConfig(config);
       setSuccess('Chart HTML generated successfully!');
-      setShowPreview(true);
-      
-      // Update preview iframe
-      setTimeout(() => {
-        if (previewRef.current) {
-          const blob = new Blob([html], { type: 'text/html' });
-          const url = URL.createObjectURL(blob);
-          previewRef.current.src = url;
-          
-          // Clean up old URL
-          previewRef.current.onload = () => {
-            URL.revokeObjectURL(url);
-          };
-        }
-      }, 100);
-      
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while processing your data.');
-      setShowPreview(false);
+      setError(
+        isCancelled(err)
+          ? 'Chart generation was cancelled.'
+          : err instanceof Error
+            ? err.message
+            : 'An error occurred while processing your data.'
+      );
+    } finally {
+      setGenerating(false);
     }
   };
 
+  const handleCancelPipeline = () => {
+    cancelPipeline();
+    cancelGenerate();
+  };
+
   const handleCopy = async () => {
     if (!generatedHtml) return;
     
@@ -350,7 +336,7 @@ function App() {
       await navigator.clipboard.writeText(generatedHtml);
       setSuccess('HTML code copied to clipboard!');
       setTimeout(() => setSuccess(''), 3000);
-    } catch (err) {
+    } catch {
       // Fallback for browsers that don't support clipboard API
       const textArea = document.createElement('textarea');
       textArea.value = generatedHtml;
@@ -360,13 +346,301 @@ function App() {
         document.execCommand('copy');
         setSuccess('HTML code copied to clipboard!');
         setTimeout(() => setSuccess(''), 3000);
-      } catch (fallbackErr) {
+      } catch {
         setError('Failed to copy to clipboard.');
       }
       document.body.removeChild(textArea);
     }
   };
 
+  // Every format is built from the ChartConfig behind the current HTML, so they all match.
+  const handleExport = async (format: ExportFormat) => {
+    if (!generatedConfig) return;
+    setError('');
+    setBusyFormat(format);
+    try {
+      let fileName = 'chart.' + format;
+      if (format === 'png') {
+        downloadBlob(await exportPng(generatedConfig, imageSize), fileName);
+      } else if (format === 'svg') {
+        downloadBlob(await exportSvg(generatedConfig, imageSize), fileName);
+      } else if (format === 'pdf') {
+        downloadBlob(await exportPdf(generatedConfig, imageSize), fileName);
+      } else if (format === 'json') {
+        fileName = 'chart.config.json';
+        downloadBlob(new Blob([createChartJsConfigJson(generatedConfig)], { type: 'application/json' }), fileName);
+      } else if (format === 'embed') {
+        fileName = 'chart-embed.html';
+        const chartJsSource = exportOptions.mode === 'offline' ? await loadChartJsScript() : undefined;
+        const snippet = createEmbedSnippet(generatedConfig, { chartJsSource, integrity: exportOptions.integrity });
+        downloadBlob(new Blob([snippet], { type: 'text/html' }), fileName);
+      } else {
+        const component = createReactComponent(generatedConfig);
+        fileName = component.fileName;
+        downloadBlob(new Blob([component.source], { type: 'text/plain' }), fileName);
+      }
+      setSuccess(`Exported ${fileName}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const editorState: EditorState = useMemo(
+    () => ({
+      input,
+      chartType,
+      title,
+      delimiter,
+      numberLocale,
+      jsonPath,
+      pointMapping,
+      columnMapping,
+      transformOptions,
+      exportOptions,
+      chartOptions,
+      theme,
+      seriesColors,
+      timeOptions,
+      annotations,
+    }),
+    [
+      input,
+      chartType,
+      title,
+      delimiter,
+      numberLocale,
+      jsonPath,
+      pointMapping,
+      columnMapping,
+      transformOptions,
+      exportOptions,
+      chartOptions,
+      theme,
+      seriesColors,
+      timeOptions,
+      annotations,
+    ]
+  );
+
+  const applyEditorState = useCallback((state: EditorState) => {
+    setInput(state.input);
+    setChartType(state.chartType);
+    setTitle(state.title);
+    setDelimiter(state.delimiter);
+    setNumberLocale(state.numberLocale);
+    setJsonPath(state.jsonPath);
+    setPointMapping(state.pointMapping);
+    setColumnMapping(state.columnMapping);
+    setTransformOptions(state.transformOptions);
+    setExportOptions(state.exportOptions);
+    setChartOptions(state.chartOptions);
+    setTheme(state.theme);
+    setSeriesColors(state.seriesColors);
+    setTimeOptions(state.timeOptions);
+    setAnnotations(state.annotations);
+  }, []);
+
+  const history = useUndoHistory(editorState, applyEditorState);
+  const resetHistory = history.reset;
+  const currentProject = projects.find(project => project.id === currentProjectId) || null;
+
+  const openSharedState = useCallback(
+    (state: EditorState) => {
+      applyEditorState(state);
+      setGeneratedConfig(null);
+      setGeneratedHtml('');
+      setCurrentProjectId(null);
+      resetHistory(state);
+    },
+    [applyEditorState, resetHistory]
+  );
+
+  // A #chart= link opens that chart; the fragment is then dropped so a reload keeps later edits
+  const openLinkedChart = useCallback(() => {
+    if (!hasSharedChart(window.location.hash)) return false;
+    try {
+      openSharedState(readShareFragment(window.location.hash));
+      setSuccess('Opened a shared chart.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the share link.');
+    }
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    return true;
+  }, [openSharedState]);
+
+  useEffect(() => {
+    window.addEventListener('hashchange', openLinkedChart);
+    return () => window.removeEventListener('hashchange', openLinkedChart);
+  }, [openLinkedChart]);
+
+  // Restore the last session and the library once on startup
+  useEffect(() => {
+    const openedLink = openLinkedChart();
+    Promise.all([loadSession(), listProjects(), loadDashboard()])
+      .then(([session, saved, savedDashboard]) => {
+        setProjects(saved);
+        if (savedDashboard) setDashboard(savedDashboard);
+        if (!session || openedLink) return;
+        applyEditorState(session.state);
+        setGeneratedConfig(session.config);
+        setGeneratedHtml(session.html);
+        setCurrentProjectId(session.projectId);
+        resetHistory(session.state);
+      })
+      .catch(() => {
+        // No IndexedDB (e.g. some private windows): start empty, saving will report the error
+      })
+      .finally(() => setSessionLoaded(true));
+  }, [applyEditorState, resetHistory, openLinkedChart]);
+
+  // Autosave, but not before the saved session has been restored over the defaults
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const timer = setTimeout(() => {
+      saveSession({ projectId: currentProjectId, state: editorState, config: generatedConfig, html: generatedHtml }).catch(
+        () => {}
+      );
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sessionLoaded, editorState, generatedConfig, generatedHtml, currentProjectId]);
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const timer = setTimeout(() => {
+      saveDashboard(dashboard).catch(() => {});
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sessionLoaded, dashboard]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside text fields, which keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, select, [contenteditable]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
+  const downloadProjectFile = (name: string) => {
+    const file = createProjectFile(editorState, name);
+    downloadBlob(new Blob([file], { type: 'application/json' }), projectFileName(name));
+  };
+
+  const handleShare = async () => {
+    const link = createShareLink(editorState, window.location.href);
+    if (!link) {
+      downloadProjectFile(currentProject?.name || title);
+      setSuccess(
+        'This data is too large for a link, so it was saved as a .chartcraft.json project file. Send the file instead; it opens by dropping it on the file import area.'
+      );
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setSuccess('Share link copied to clipboard. It contains the data itself, so only send it to people who may see it.');
+    } catch {
+      setError('Could not copy the share link to the clipboard.');
+    }
+  };
+
+  // Charts come from their saved projects, so unsaved edits in the editor aren't included
+  const handleExportDashboard = async () => {
+    setError('');
+    setSuccess('');
+    setDashboardExporting(true);
+    try {
+      const { charts, errors } = await buildDashboardCharts(dashboard, projects, async state => {
+        if (!state.input.trim()) throw new Error('This chart has no data.');
+        const result = await runDashboardChart(state);
+        if (!result.config) throw new Error(result.error);
+        return result.config;
+      });
+      if (Object.keys(charts).length === 0) {
+        throw new Error(errors[0] || 'Add at least one chart to the dashboard.');
+      }
+      const chartJsSource = exportOptions.mode === 'offline' ? await loadChartJsScript() : undefined;
+      const html = generateDashboardHtml(dashboard, charts, { chartJsSource, integrity: exportOptions.integrity });
+      downloadBlob(new Blob([html], { type: 'text/html' }), 'dashboard.html');
+      if (errors.length > 0) {
+        setError(`Dashboard exported without ${errors.length} chart${errors.length === 1 ? '' : 's'}: ${errors.join(' ')}`);
+      } else {
+        setSuccess('Dashboard exported.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the dashboard.');
+    } finally {
+      setDashboardExporting(false);
+    }
+  };
+
+  const refreshProjects = () => listProjects().then(setProjects);
+
+  const handleSaveProject = async (name: string, asNew: boolean) => {
+    const now = Date.now();
+    const existing = asNew ? null : currentProject;
+    const project: ChartProject = {
+      id: existing?.id || createProjectId(),
+      name,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      state: editorState,
+      config: generatedConfig,
+      html: generatedHtml,
+    };
+    try {
+      await saveProject(project);
+      await refreshProjects();
+      setCurrentProjectId(project.id);
+      setSuccess(`Saved "${name}" to the library.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the chart.');
+    }
+  };
+
+  const handleOpenProject = (project: ChartProject) => {
+    applyEditorState(project.state);
+    setGeneratedConfig(project.config);
+    setGeneratedHtml(project.html);
+    setCurrentProjectId(project.id);
+    resetHistory(project.state);
+    setError('');
+    setSuccess(`Opened "${project.name}".`);
+  };
+
+  const handleDuplicateProject = async (project: ChartProject) => {
+    const now = Date.now();
+    const copy = { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+    try {
+      await saveProject(copy);
+      await refreshProjects();
+      handleOpenProject(copy);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not duplicate the chart.');
+    }
+  };
+
+  const handleDeleteProject = async (project: ChartProject) => {
+    if (!window.confirm(`Delete "${project.name}" from the library?`)) return;
+    try {
+      await deleteProject(project.id);
+      await refreshProjects();
+      if (project.id === currentProjectId) setCurrentProjectId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the chart.');
+    }
+  };
+
   const exampleCSV = `month,sales,expenses
 Jan,120,80
 Feb,150,90
@@ -380,6 +654,38 @@ Apr,180,95`;
   {"month": "Apr", "sales": 180, "expenses": 95}
 ]`;
 
+  const handleSaveTheme = (name: string) => {
+    const saved = { ...theme, name };
+    const themes = [...savedThemes.filter(t => t.name !== name), saved];
+    storeSavedThemes(themes);
+    setSavedThemes(themes);
+    setTheme(saved);
+    setSuccess(`Theme "${name}" saved.`);
+  };
+
+  const handleDeleteTheme = (name: string) => {
+    const themes = savedThemes.filter(t => t.name !== name);
+    storeSavedThemes(themes);
+    setSavedThemes(themes);
+    setTheme({ ...theme, name: `${name} (unsaved)` });
+  };
+
+  const handleImport = ({ fileName, text, delimiter: fileDelimiter }: ImportedFile) => {
+    setError('');
+    if (isProjectFileName(fileName)) {
+      try {
+        openSharedState(readProjectFile(text).state);
+        setSuccess(`Opened ${fileName}.`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not open the project file.');
+      }
+      return;
+    }
+    setInput(text);
+    setDelimiter(fileDelimiter);
+    setSuccess(`Loaded ${fileName}.`);
+  };
+
   const insertExample = (example: string) => {
     setInput(example);
     if (textareaRef.current) {
@@ -415,9 +721,37 @@ Apr,180,95`;
                 <p className="text-xs text-gray-500 font-medium">Professional Data Visualization Platform</p>
               </div>
             </div>
-            <div className="text-right">
-              <p className="text-sm text-gray-600 font-medium"> by  Ruthika</p>
-              
+            <div className="flex items-center gap-4">
+              <div className="flex gap-1">
+                <button
+                  onClick={handleShare}
+                  disabled={!input.trim()}
+                  className="p-2 text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+                  title="Copy share link"
+                >
+                  <Share2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={history.undo}
+                  disabled={!history.canUndo}
+                  className="p-2 text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={history.redo}
+                  disabled={!history.canRedo}
+                  className="p-2 text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-gray-600 font-medium"> by  Ruthika</p>
+                
+              </div>
             </div>
           </div>
         </div>
@@ -438,6 +772,26 @@ Apr,180,95`;
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Input Section */}
           <div className="space-y-6">
+            <ProjectLibraryPanel
+              projects={projects}
+              currentProject={currentProject}
+              onSave={handleSaveProject}
+              onOpen={handleOpenProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+              onDownloadFile={downloadProjectFile}
+            />
+
+            <DashboardPanel
+              dashboard={dashboard}
+              projects={projects}
+              savedThemes={savedThemes}
+              currentTheme={theme}
+              exporting={dashboardExporting}
+              onChange={setDashboard}
+              onExport={handleExportDashboard}
+            />
+
             <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
               <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
                 <FileText className="w-5 h-5" />
@@ -460,13 +814,123 @@ Apr,180,95`;
                 </button>
               </div>
 
-              <textarea
-                ref={textareaRef}
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Paste your CSV or JSON data here..."
-                className="w-full h-48 p-4 border border-gray-300 rounded-lg font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
+              <FileDropZone onImport={handleImport} onError={setError} />
+
+              <div className="flex items-center gap-2 mb-4">
+                <label htmlFor="delimiter" className="text-sm text-gray-600">
+                  CSV delimiter
+                </label>
+                <select
+                  id="delimiter"
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value as Delimiter | 'auto')}
+                  className="p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {delimiterOptions.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <label htmlFor="numberLocale" className="text-sm text-gray-600 ml-2">
+                  Number format
+                </label>
+                <select
+                  id="numberLocale"
+                  value={numberLocale}
+                  onChange={(e) => setNumberLocale(e.target.value as NumberLocale)}
+                  className="p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {numberLocaleOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/^\s*[[{]/.test(input) && (
+                <div className="flex items-center gap-2 mb-4">
+                  <label htmlFor="jsonPath" className="text-sm text-gray-600 whitespace-nowrap">
+                    JSON path
+                  </label>
+                  <input
+                    id="jsonPath"
+                    type="text"
+                    value={jsonPath}
+                    onChange={(e) => setJsonPath(e.target.value)}
+                    placeholder="Auto (e.g. data.items)"
+                    className="flex-1 p-1 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-1 mb-2">
+                {(['text', 'grid'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setDataView(view)}
+                    className={`flex items-center gap-1 px-3 py-1 text-sm rounded-md transition-colors ${
+                      dataView === view ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {view === 'text' ? <FileText className="w-4 h-4" /> : <Table className="w-4 h-4" />}
+                    {view === 'text' ? 'Text' : 'Grid'}
+                  </button>
+                ))}
+              </div>
+
+              {dataView === 'text' ? (
+                <textarea
+                  ref={textareaRef}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  placeholder="Paste your CSV or JSON data here..."
+                  className="w-full h-48 p-4 border border-gray-300 rounded-lg font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              ) : rawTable ? (
+                <DataGrid
+                  table={rawTable}
+                  columns={rawColumns}
+                  numberLocale={numberLocale}
+                  onChange={handleTableChange}
+                  onError={setError}
+                />
+              ) : (
+                <div className="h-48 flex flex-col items-center justify-center gap-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-500">
+                  {input.trim() ? (
+                    <p>Fix the data in the Text tab to edit it as a grid.</p>
+                  ) : (
+                    <button
+                      onClick={() => setInput('label,value\n,')}
+                      className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200"
+                    >
+                      Start an empty table
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {previewError && (
+                <p className="mt-2 flex items-start gap-2 text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  {previewError}
+                </p>
+              )}
+
+              {/* The worker reports which step it is on, not how far into a step it is */}
+              {pipelineStage && Math.max(input.length, debouncedInput.length) > LARGE_INPUT && (
+                <div className="mt-2 flex items-center gap-3 text-sm text-gray-600">
+                  <span className="whitespace-nowrap">
+                    Step {pipelineStepIndex + 1} of {pipelineStages.length}: {pipelineStages[pipelineStepIndex]?.label}…
+                  </span>
+                  <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${((pipelineStepIndex + 1) / pipelineStages.length) * 100}%` }}
+                    />
+                  </div>
+                  <button onClick={handleCancelPipeline} className="text-gray-500 hover:text-red-600">
+                    Cancel
+                  </button>
+                </div>
+              )}
 
               {/* Chart Configuration */}
               <div className="mt-6 space-y-4">
@@ -474,24 +938,149 @@ Apr,180,95`;
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Chart Type
                   </label>
-                  <div className="grid grid-cols-2 gap-2">
-                    {chartTypes.map(({ value, label, icon: Icon }) => (
+                  {showRecommendation && recommendation && (
+                    <div className="mb-2 p-2 bg-blue-50 border border-blue-200 rounded-lg flex items-center gap-2 text-sm text-blue-800">
+                      <Lightbulb className="w-4 h-4 flex-shrink-0" />
+                      <span className="flex-1">
+                        Suggested: {chartTypes.find(type => type.value === recommendation.type)?.label}. {recommendation.reason}
+                      </span>
                       <button
-                        key={value}
-                        onClick={() => setChartType(value)}
-                        className={`flex items-center gap-2 p-3 rounded-lg border transition-all ${
-                          chartType === value
-                            ? 'border-blue-500 bg-blue-50 text-blue-700'
-                            : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                        }`}
+                        onClick={() => applySuggestion(recommendation)}
+                        className="px-2 py-0.5 bg-white border border-blue-300 rounded hover:bg-blue-100 whitespace-nowrap"
                       >
-                        <Icon className="w-4 h-4" />
-                        <span className="text-sm">{label}</span>
+                        Apply
                       </button>
-                    ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    {chartTypes.map(({ value, label, icon: Icon }) => {
+                      const unsuitable = suggestions && !suggestions[value]?.suitable;
+                      return (
+                        <button
+                          key={value}
+                          onClick={() => setChartType(value)}
+                          title={suggestions?.[value]?.reason}
+                          className={`flex items-center gap-2 p-3 rounded-lg border transition-all text-left ${
+                            chartType === value
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                          } ${unsuitable && chartType !== value ? 'opacity-60' : ''}`}
+                        >
+                          <Icon className="w-4 h-4 flex-shrink-0" />
+                          <span className="text-sm">
+                            {label}
+                            {unsuitable && <span className="block text-xs text-gray-500">{suggestions[value].reason}</span>}
+                          </span>
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
 
+                {profile && <DataProfilePanel profile={profile} />}
+
+                {rawColumns.length > 0 && (
+                  <TransformPanel
+                    columns={transformColumns}
+                    sourceKeys={rawColumns.map(column => column.key)}
+                    options={transformOptions}
+                    onChange={setTransformOptions}
+                  />
+                )}
+
+                {isPointChart(chartType) && inputColumns.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Point Columns
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        ['x', 'X Axis'],
+                        ['y', 'Y Axis'],
+                        ...(chartType === 'bubble' ? [['r', 'Radius']] : []),
+                        ['group', 'Series (optional)'],
+                      ] as [keyof PointMapping, string][]).map(([field, label]) => (
+                        <div key={field}>
+                          <span className="block text-xs text-gray-500 mb-1">{label}</span>
+                          <select
+                            value={pointMapping[field]}
+                            onChange={(e) => setPointMapping({ ...pointMapping, [field]: e.target.value })}
+                            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">{field === 'group' ? 'None' : 'Auto'}</option>
+                            {inputColumns.map(column => (
+                              <option key={column.key} value={column.key}>{column.key}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {!isPointChart(chartType) && inputColumns.length > 0 && (
+                  <ColumnMappingPanel
+                    columns={inputColumns}
+                    mapping={effectiveMapping}
+                    chartType={chartType}
+                    onChange={setColumnMapping}
+                  />
+                )}
+
+                {chartWarnings.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                    {chartWarnings.map(warning => (
+                      <div key={warning.message} className="flex items-start gap-2 text-sm text-amber-800">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        <div>
+                          <p>{warning.message}</p>
+                          {warning.pickSingleColumn && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {warning.pickSingleColumn.map(key => (
+                                <button
+                                  key={key}
+                                  onClick={() => selectSingleColumn(key)}
+                                  className="px-2 py-1 text-xs bg-white border border-amber-300 rounded hover:bg-amber-100"
+                                >
+                                  Use only {key}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {supportsCombo(chartType) && labelIsDate && (
+                  <TimeAxisPanel options={timeOptions} onChange={setTimeOptions} />
+                )}
+
+                <ChartOptionsPanel chartType={chartType} options={chartOptions} onChange={setChartOptions} />
+
+                {getAxesKind(chartType) === 'cartesian' && (
+                  <AnnotationsPanel
+                    annotations={annotations}
+                    xKind={annotationAxis}
+                    labels={annotationLabels}
+                    seriesNames={isPointChart(chartType) ? [] : enabledSeries}
+                    onChange={setAnnotations}
+                  />
+                )}
+
+                <ThemePanel
+                  theme={theme}
+                  savedThemes={savedThemes}
+                  seriesNames={colorNames}
+                  seriesHeading={isSliceChart(chartType) ? 'Slice colors' : undefined}
+                  seriesColors={seriesColors}
+                  onChange={setTheme}
+                  onSave={handleSaveTheme}
+                  onDelete={handleDeleteTheme}
+                  onSeriesColorsChange={setSeriesColors}
+                />
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Chart Title
@@ -505,10 +1094,46 @@ Apr,180,95`;
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Export Mode
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {([
+                      ['cdn', 'CDN (lightweight)', 'Loads Chart.js from jsDelivr'],
+                      ['offline', 'Self-contained', 'Inlines Chart.js, works offline'],
+                    ] as [ExportOptions['mode'], string, string][]).map(([mode, label, hint]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setExportOptions({ ...exportOptions, mode })}
+                        className={`p-3 rounded-lg border text-left transition-all ${
+                          exportOptions.mode === mode
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                        }`}
+                      >
+                        <span className="block text-sm">{label}</span>
+                        <span className="block text-xs text-gray-500">{hint}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {exportOptions.mode === 'cdn' && (
+                    <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={exportOptions.integrity}
+                        onChange={(e) => setExportOptions({ ...exportOptions, integrity: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      Add Subresource Integrity (SRI) hash
+                    </label>
+                  )}
+                </div>
+
                 <button
                   onClick={handleGenerate}
                   className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-6 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={!input.trim()}
+                  disabled={!input.trim() || generating}
                 >
                   Generate Chart HTML
                 </button>
@@ -536,25 +1161,35 @@ Apr,180,95`;
 
           {/* Output Section */}
           <div className="space-y-6">
-            {showPreview && (
+            {hasPreview && (
               <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-xl font-semibold text-gray-800">Chart Preview</h2>
-                  <button
-                    onClick={handleCopy}
-                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
-                  >
-                    <Copy className="w-4 h-4" />
-                    Copy HTML
-                  </button>
+                  {generatedHtml && (
+                    <button
+                      onClick={handleCopy}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                    >
+                      <Copy className="w-4 h-4" />
+                      Copy HTML
+                    </button>
+                  )}
                 </div>
+
+                {previewError && (
+                  <p className="mb-2 text-xs text-amber-700">Showing the last valid chart until the error is fixed.</p>
+                )}
                 
                 <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  {/* Scripts only: no allow-same-origin, so the preview runs in an opaque
+                      origin and can't reach this page, its storage or top navigation. */}
                   <iframe
                     ref={previewRef}
+                    srcDoc={previewDocument}
                     className="w-full h-96 border-0"
                     title="Chart Preview"
                     sandbox="allow-scripts"
+                    referrerPolicy="no-referrer"
                   />
                 </div>
               </div>
@@ -573,17 +1208,7 @@ Apr,180,95`;
                       Copy
                     </button>
                     <button
-                      onClick={() => {
-                        const blob = new Blob([generatedHtml], { type: 'text/html' });
-                        const url = URL.createObjectURL(blob);
-                        const a = document.createElement('a');
-                        a.href = url;
-                        a.download = 'chart.html';
-                        document.body.appendChild(a);
-                        a.click();
-                        document.body.removeChild(a);
-                        URL.revokeObjectURL(url);
-                      }}
+                      onClick={() => downloadBlob(new Blob([generatedHtml], { type: 'text/html' }), 'chart.html')}
                       className="flex items-center gap-2 px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
                     >
                       <Download className="w-4 h-4" />
@@ -591,6 +1216,13 @@ Apr,180,95`;
                     </button>
                   </div>
                 </div>
+
+                <ExportMenu
+                  imageSize={imageSize}
+                  busyFormat={busyFormat}
+                  onImageSizeChange={setImageSize}
+                  onExport={handleExport}
+                />
                 
                 <pre className="bg-gray-50 p-4 rounded-lg text-xs overflow-auto max-h-96 border border-gray-200">
                   <code className="text-gray-800">{generatedHtml}</code>
@@ -608,7 +1240,7 @@ Apr,180,95`;
                   </div>
                   <div>
                     <p className="font-medium text-gray-800">Prepare Your Data</p>
-                    <p>Format your data as CSV (comma-separated) or JSON array. First column should be labels, remaining columns should contain numeric values.</p>
+                    <p>Format your data as CSV/TSV, a JSON array, JSON Lines or column-oriented JSON. Nested JSON fields become dotted columns like stats.sales. The first column is used for labels by default; use Column Mapping to pick a different label column, choose which value columns to plot and mix bar and line series. Scatter and bubble charts let you pick the X, Y and radius columns.</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
@@ -626,7 +1258,7 @@ Apr,180,95`;
                   </div>
                   <div>
                     <p className="font-medium text-gray-800">Generate & Use</p>
-                    <p>Click "Generate Chart HTML" to create your code. Copy the HTML and save it as a .html file, then open in any web browser.</p>
+                    <p>The preview updates as you edit. Click "Generate Chart HTML" to create your code. Copy the HTML and save it as a .html file, then open in any web browser. Pick the self-contained export mode for machines without internet access. The buttons above the code export PNG, SVG or PDF images, a Chart.js config, an embed snippet or a React component.</p>
                   </div>
                 </div>
               </div>
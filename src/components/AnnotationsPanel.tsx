@@ -0,0 +1,266 @@
+import { Plus, StickyNote, Trash2, X } from 'lucide-react';
+import { ChartAnnotation, TrendMethod } from '../types';
+import { annotationKinds, createAnnotation, trendMethods } from '../utils/annotations';
+import { toNumber } from '../utils/columns';
+import { parseDate } from '../utils/dates';
+
+// What the x axis holds, which decides how x positions are entered
+export type AnnotationAxisKind = 'category' | 'time' | 'number';
+
+interface AnnotationsPanelProps {
+  annotations: ChartAnnotation[];
+  xKind: AnnotationAxisKind;
+  // Category labels, offered for x positions on category axes; empty means type them
+  labels: string[];
+  seriesNames: string[];
+  onChange: (annotations: ChartAnnotation[]) => void;
+}
+
+interface PositionInputProps {
+  axis: 'x' | 'y';
+  xKind: AnnotationAxisKind;
+  labels: string[];
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}
+
+const inputClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const isValidPosition = (axis: 'x' | 'y', xKind: AnnotationAxisKind, value: string) => {
+  if (!value.trim()) return true;
+  if (axis === 'x' && xKind === 'time') return parseDate(value.trim()) !== null;
+  if (axis === 'x' && xKind === 'category') return true;
+  return toNumber(value.trim()) !== null;
+};
+
+function PositionInput({ axis, xKind, labels, value, placeholder, onChange }: PositionInputProps) {
+  if (axis === 'x' && xKind === 'category' && labels.length > 0) {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+        <option value="">Choose a label</option>
+        {!labels.includes(value) && value && <option value={value}>{value}</option>}
+        {labels.map(label => (
+          <option key={label} value={label}>{label}</option>
+        ))}
+      </select>
+    );
+  }
+  const valid = isValidPosition(axis, xKind, value);
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder || (axis === 'x' && xKind === 'time' ? '2024-03-01' : '150')}
+      aria-invalid={!valid}
+      title={valid ? undefined : axis === 'x' && xKind === 'time' ? 'Not a date' : 'Not a number'}
+      className={`${inputClassName} ${valid ? '' : 'border-red-400'}`}
+    />
+  );
+}
+
+function AnnotationsPanel({ annotations, xKind, labels, seriesNames, onChange }: AnnotationsPanelProps) {
+  const update = (annotation: ChartAnnotation) =>
+    onChange(annotations.map(existing => (existing.id === annotation.id ? annotation : existing)));
+
+  const axisSelect = (annotation: Extract<ChartAnnotation, { axis: 'x' | 'y' }>) => (
+    <select
+      value={annotation.axis}
+      onChange={(e) => update({ ...annotation, axis: e.target.value as 'x' | 'y' })}
+      className={inputClassName}
+    >
+      <option value="y">At a value</option>
+      <option value="x">At an x position</option>
+    </select>
+  );
+
+  const labelAndColor = (annotation: Extract<ChartAnnotation, { label: string }>) => (
+    <div className="col-span-2 flex gap-2">
+      <input
+        type="text"
+        value={annotation.label}
+        onChange={(e) => update({ ...annotation, label: e.target.value })}
+        placeholder="Label"
+        className={inputClassName}
+      />
+      <input
+        type="color"
+        value={annotation.color}
+        onChange={(e) => update({ ...annotation, color: e.target.value })}
+        className="w-10 h-9 flex-none border border-gray-300 rounded cursor-pointer"
+        title="Color"
+      />
+    </div>
+  );
+
+  const renderFields = (annotation: ChartAnnotation) => {
+    switch (annotation.kind) {
+      case 'line':
+        return (
+          <>
+            {axisSelect(annotation)}
+            <PositionInput
+              axis={annotation.axis}
+              xKind={xKind}
+              labels={labels}
+              value={annotation.value}
+              onChange={(value) => update({ ...annotation, value })}
+            />
+            {labelAndColor(annotation)}
+          </>
+        );
+      case 'range':
+        return (
+          <>
+            <div className="col-span-2">{axisSelect(annotation)}</div>
+            <PositionInput
+              axis={annotation.axis}
+              xKind={xKind}
+              labels={labels}
+              value={annotation.from}
+              placeholder="From"
+              onChange={(from) => update({ ...annotation, from })}
+            />
+            <PositionInput
+              axis={annotation.axis}
+              xKind={xKind}
+              labels={labels}
+              value={annotation.to}
+              placeholder="To"
+              onChange={(to) => update({ ...annotation, to })}
+            />
+            {labelAndColor(annotation)}
+          </>
+        );
+      case 'point':
+        return (
+          <>
+            <PositionInput
+              axis="x"
+              xKind={xKind}
+              labels={labels}
+              value={annotation.x}
+              placeholder="X"
+              onChange={(x) => update({ ...annotation, x })}
+            />
+            <PositionInput
+              axis="y"
+              xKind={xKind}
+              labels={labels}
+              value={annotation.y}
+              placeholder={xKind === 'category' ? 'Value (auto)' : 'Value'}
+              onChange={(y) => update({ ...annotation, y })}
+            />
+            {labelAndColor(annotation)}
+          </>
+        );
+      case 'trend':
+        return (
+          <>
+            <select
+              value={annotation.series}
+              onChange={(e) => update({ ...annotation, series: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">All series</option>
+              {seriesNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={annotation.method}
+              onChange={(e) => update({ ...annotation, method: e.target.value as TrendMethod })}
+              className={inputClassName}
+            >
+              {trendMethods.map(method => (
+                <option key={method.value} value={method.value}>{method.label}</option>
+              ))}
+            </select>
+            {annotation.method === 'moving-average' && (
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                Window
+                <input
+                  type="number"
+                  min={2}
+                  value={annotation.window}
+                  onChange={(e) => update({ ...annotation, window: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                  className={inputClassName}
+                />
+              </label>
+            )}
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="color"
+                value={annotation.color || '#888888'}
+                onChange={(e) => update({ ...annotation, color: e.target.value })}
+                className="w-10 h-9 flex-none border border-gray-300 rounded cursor-pointer"
+                title="Color"
+              />
+              {annotation.color ? (
+                <button
+                  onClick={() => update({ ...annotation, color: '' })}
+                  className="p-1 text-gray-400 hover:text-gray-700"
+                  title="Use series color"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              ) : (
+                <span className="text-gray-400">Series color</span>
+              )}
+            </div>
+          </>
+        );
+    }
+  };
+
+  return (
+    <details className="border border-gray-200 rounded-lg">
+      <summary className="p-3 cursor-pointer text-sm font-medium text-gray-700 flex items-center gap-2 select-none">
+        <StickyNote className="w-4 h-4" />
+        Annotations
+        {annotations.length > 0 && <span className="font-normal text-gray-500">· {annotations.length}</span>}
+      </summary>
+
+      <div className="p-3 pt-0 space-y-3">
+        {annotations.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {annotations.map(annotation => (
+              <li key={annotation.id} className="p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-gray-800">
+                    {annotationKinds.find(kind => kind.value === annotation.kind)?.label}
+                  </span>
+                  <button
+                    onClick={() => onChange(annotations.filter(existing => existing.id !== annotation.id))}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">{renderFields(annotation)}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {annotationKinds.map(kind => (
+            <button
+              key={kind.value}
+              onClick={() => onChange([...annotations, createAnnotation(kind.value)])}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              {kind.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default AnnotationsPanel;
@@ -0,0 +1,269 @@
+import { ReactNode } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { ChartOptions, DownsampleMethod, LegendPosition, TooltipMode } from '../types';
+import { getAxesKind } from '../utils/chartTypes';
+import { MIN_DOWNSAMPLE_POINTS } from '../utils/downsample';
+import { isSliceChart } from '../utils/validation';
+
+interface ChartOptionsPanelProps {
+  chartType: string;
+  options: ChartOptions;
+  onChange: (options: ChartOptions) => void;
+}
+
+const inputClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const legendPositions: LegendPosition[] = ['top', 'bottom', 'left', 'right'];
+
+const tooltipModes: { value: TooltipMode; label: string }[] = [
+  { value: 'nearest', label: 'Nearest item' },
+  { value: 'index', label: 'All series at index' },
+  { value: 'point', label: 'Hovered point only' },
+  { value: 'dataset', label: 'Whole series' },
+];
+
+const downsampleMethods: { value: DownsampleMethod; label: string }[] = [
+  { value: 'none', label: 'Off (every point)' },
+  { value: 'lttb', label: 'LTTB (keeps the shape)' },
+  { value: 'min-max', label: 'Min/max (keeps spikes)' },
+];
+
+// Empty inputs mean "not set"
+const parseOptionalNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? null : Number(value));
+
+function Checkbox({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="rounded border-gray-300"
+      />
+      {label}
+    </label>
+  );
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+      {children}
+    </div>
+  );
+}
+
+function ChartOptionsPanel({ chartType, options, onChange }: ChartOptionsPanelProps) {
+  const update = (changes: Partial<ChartOptions>) => onChange({ ...options, ...changes });
+  const axes = getAxesKind(chartType);
+  const cartesian = axes === 'cartesian';
+
+  return (
+    <details className="border border-gray-200 rounded-lg">
+      <summary className="p-3 cursor-pointer text-sm font-medium text-gray-700 flex items-center gap-2 select-none">
+        <SlidersHorizontal className="w-4 h-4" />
+        Chart Options
+      </summary>
+
+      <div className="p-3 pt-0 space-y-4">
+        {cartesian && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label={options.horizontal && chartType === 'bar' ? 'Category axis title' : 'X axis title'}>
+              <input
+                type="text"
+                value={options.xAxisTitle}
+                onChange={(e) => update({ xAxisTitle: e.target.value })}
+                className={inputClassName}
+              />
+            </Field>
+            <Field label={options.horizontal && chartType === 'bar' ? 'Value axis title' : 'Y axis title'}>
+              <input
+                type="text"
+                value={options.yAxisTitle}
+                onChange={(e) => update({ yAxisTitle: e.target.value })}
+                className={inputClassName}
+              />
+            </Field>
+            <Field label="Right axis title">
+              <input
+                type="text"
+                value={options.y1AxisTitle}
+                onChange={(e) => update({ y1AxisTitle: e.target.value })}
+                placeholder="Series on the right axis"
+                className={inputClassName}
+              />
+            </Field>
+          </div>
+        )}
+
+        {axes !== 'none' && (
+          <div className="grid grid-cols-2 gap-2">
+            {cartesian && (
+              <Field label="Value scale">
+                <select
+                  value={options.scale}
+                  onChange={(e) => update({ scale: e.target.value as ChartOptions['scale'] })}
+                  className={inputClassName}
+                >
+                  <option value="linear">Linear</option>
+                  <option value="logarithmic">Logarithmic</option>
+                </select>
+              </Field>
+            )}
+            <Field label="Suggested min">
+              <input
+                type="number"
+                value={options.suggestedMin ?? ''}
+                onChange={(e) => update({ suggestedMin: parseOptionalNumber(e.target.value) })}
+                placeholder="Auto"
+                className={inputClassName}
+              />
+            </Field>
+            <Field label="Suggested max">
+              <input
+                type="number"
+                value={options.suggestedMax ?? ''}
+                onChange={(e) => update({ suggestedMax: parseOptionalNumber(e.target.value) })}
+                placeholder="Auto"
+                className={inputClassName}
+              />
+            </Field>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {axes !== 'none' && options.scale === 'linear' && (
+            <Checkbox label="Start at zero" checked={options.beginAtZero} onChange={(beginAtZero) => update({ beginAtZero })} />
+          )}
+          {cartesian && (
+            <Checkbox label="Stack series" checked={options.stacked} onChange={(stacked) => update({ stacked })} />
+          )}
+          {chartType === 'bar' && (
+            <Checkbox label="Horizontal bars" checked={options.horizontal} onChange={(horizontal) => update({ horizontal })} />
+          )}
+          {(chartType === 'line' || chartType === 'bar') && (
+            <Checkbox label="Fill under lines" checked={options.fill} onChange={(fill) => update({ fill })} />
+          )}
+          {isSliceChart(chartType) && (
+            <Checkbox
+              label="Show percentages"
+              checked={options.showPercentages}
+              onChange={(showPercentages) => update({ showPercentages })}
+            />
+          )}
+          <Checkbox label="Patterns, not just color" checked={options.patterns} onChange={(patterns) => update({ patterns })} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Legend">
+            <select
+              value={options.legend.display ? options.legend.position : 'hidden'}
+              onChange={(e) =>
+                update({
+                  legend: e.target.value === 'hidden'
+                    ? { ...options.legend, display: false }
+                    : { display: true, position: e.target.value as LegendPosition },
+                })
+              }
+              className={inputClassName}
+            >
+              {legendPositions.map(position => (
+                <option key={position} value={position}>
+                  {position.charAt(0).toUpperCase() + position.slice(1)}
+                </option>
+              ))}
+              <option value="hidden">Hidden</option>
+            </select>
+          </Field>
+          <Field label="Tooltip">
+            <select
+              value={options.tooltipMode}
+              onChange={(e) => update({ tooltipMode: e.target.value as TooltipMode })}
+              className={inputClassName}
+            >
+              {tooltipModes.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </Field>
+        </div>
+
+        {(chartType === 'line' || chartType === 'scatter') && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Downsampling">
+              <select
+                value={options.downsample}
+                onChange={(e) => update({ downsample: e.target.value as DownsampleMethod })}
+                className={inputClassName}
+              >
+                {downsampleMethods.map(method => (
+                  <option key={method.value} value={method.value}>{method.label}</option>
+                ))}
+              </select>
+            </Field>
+            {options.downsample !== 'none' && (
+              <Field label="Max points per series">
+                <input
+                  type="number"
+                  min={MIN_DOWNSAMPLE_POINTS}
+                  step={100}
+                  value={options.maxPoints}
+                  onChange={(e) => {
+                    const maxPoints = parseOptionalNumber(e.target.value);
+                    // Values under the minimum are raised when the chart is built, so typing isn't interrupted
+                    if (maxPoints !== null && maxPoints > 0) update({ maxPoints: Math.floor(maxPoints) });
+                  }}
+                  className={inputClassName}
+                />
+              </Field>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <Field label="Value prefix">
+            <input
+              type="text"
+              value={options.valueFormat.prefix}
+              onChange={(e) => update({ valueFormat: { ...options.valueFormat, prefix: e.target.value } })}
+              placeholder="e.g. $"
+              className={inputClassName}
+            />
+          </Field>
+          <Field label="Value suffix">
+            <input
+              type="text"
+              value={options.valueFormat.suffix}
+              onChange={(e) => update({ valueFormat: { ...options.valueFormat, suffix: e.target.value } })}
+              placeholder="e.g. %"
+              className={inputClassName}
+            />
+          </Field>
+          <Field label="Decimals">
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={options.valueFormat.decimals ?? ''}
+              onChange={(e) => {
+                const decimals = parseOptionalNumber(e.target.value);
+                update({
+                  valueFormat: {
+                    ...options.valueFormat,
+                    decimals: decimals === null ? null : Math.min(10, Math.max(0, Math.floor(decimals))),
+                  },
+                });
+              }}
+              placeholder="Auto"
+              className={inputClassName}
+            />
+          </Field>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default ChartOptionsPanel;
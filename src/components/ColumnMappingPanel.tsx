@@ -0,0 +1,133 @@
+import { ArrowDown, ArrowUp, Columns } from 'lucide-react';
+import { ColumnInfo, ColumnMapping, SeriesMapping } from '../types';
+
+interface ColumnMappingPanelProps {
+  columns: ColumnInfo[];
+  mapping: ColumnMapping;
+  chartType: string;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const typeBadges: Record<ColumnInfo['type'], string> = {
+  number: 'bg-green-100 text-green-700',
+  date: 'bg-blue-100 text-blue-700',
+  text: 'bg-gray-100 text-gray-600',
+  empty: 'bg-yellow-100 text-yellow-700',
+};
+
+// Combo charts only make sense on cartesian bar/line charts.
+const comboChartTypes = ['bar', 'line'];
+
+function ColumnMappingPanel({ columns, mapping, chartType, onChange }: ColumnMappingPanelProps) {
+  const supportsCombo = comboChartTypes.includes(chartType);
+  const columnType = (key: string) => columns.find(column => column.key === key)?.type || 'empty';
+
+  const updateSeries = (index: number, changes: Partial<SeriesMapping>) => {
+    const series = mapping.series.map((s, i) => (i === index ? { ...s, ...changes } : s));
+    onChange({ ...mapping, series });
+  };
+
+  const moveSeries = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= mapping.series.length) return;
+    const series = [...mapping.series];
+    [series[index], series[target]] = [series[target], series[index]];
+    onChange({ ...mapping, series });
+  };
+
+  const setLabelKey = (labelKey: string) => {
+    // The old label column becomes a (disabled) series again; the new one leaves the list.
+    const series = mapping.series.filter(s => s.key !== labelKey);
+    if (mapping.labelKey && mapping.labelKey !== labelKey) {
+      series.push({ key: mapping.labelKey, enabled: false, type: '', axis: 'y' });
+    }
+    onChange({ labelKey, series });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        <Columns className="w-4 h-4" />
+        Column Mapping
+      </label>
+
+      <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Label column</span>
+          <select
+            value={mapping.labelKey}
+            onChange={(e) => setLabelKey(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {columns.map(column => (
+              <option key={column.key} value={column.key}>
+                {column.key} ({column.type})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Value columns</span>
+          <ul className="space-y-1">
+            {mapping.series.map((s, index) => (
+              <li key={s.key} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={s.enabled}
+                  onChange={(e) => updateSeries(index, { enabled: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                <span className={`flex-1 truncate ${s.enabled ? 'text-gray-800' : 'text-gray-400'}`}>{s.key}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${typeBadges[columnType(s.key)]}`}>
+                  {columnType(s.key)}
+                </span>
+                {supportsCombo && (
+                  <>
+                    <select
+                      value={s.type}
+                      onChange={(e) => updateSeries(index, { type: e.target.value })}
+                      className="p-1 border border-gray-300 rounded text-xs"
+                      title="Series chart type"
+                    >
+                      <option value="">Default</option>
+                      <option value="bar">Bar</option>
+                      <option value="line">Line</option>
+                    </select>
+                    <select
+                      value={s.axis}
+                      onChange={(e) => updateSeries(index, { axis: e.target.value as SeriesMapping['axis'] })}
+                      className="p-1 border border-gray-300 rounded text-xs"
+                      title="Y axis"
+                    >
+                      <option value="y">Left axis</option>
+                      <option value="y1">Right axis</option>
+                    </select>
+                  </>
+                )}
+                <button
+                  onClick={() => moveSeries(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => moveSeries(index, 1)}
+                  disabled={index === mapping.series.length - 1}
+                  className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ColumnMappingPanel;
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Download, LayoutDashboard, Plus, Trash2, Type } from 'lucide-react';
+import { ChartProject, Dashboard, DashboardItem, PageTheme } from '../types';
+import { addChartItem, addTextItem, moveItem, removeItem, updateItem } from '../utils/dashboard';
+import { themePresets } from '../utils/themes';
+
+interface DashboardPanelProps {
+  dashboard: Dashboard;
+  projects: ChartProject[];
+  savedThemes: PageTheme[];
+  // Theme of the chart open in the editor, offered as a starting point
+  currentTheme: PageTheme;
+  exporting: boolean;
+  onChange: (dashboard: Dashboard) => void;
+  onExport: () => void;
+}
+
+const inputClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function DashboardPanel({
+  dashboard,
+  projects,
+  savedThemes,
+  currentTheme,
+  exporting,
+  onChange,
+  onExport,
+}: DashboardPanelProps) {
+  const [projectId, setProjectId] = useState('');
+  const allThemes = [...themePresets, ...savedThemes];
+  const selectedProject = projects.find(project => project.id === projectId) || projects[0];
+  const hasCharts = dashboard.items.some(item => item.kind === 'chart');
+
+  const projectName = (id: string) => projects.find(project => project.id === id)?.name;
+
+  const renderItem = (item: DashboardItem, index: number) => (
+    <li key={item.id} className="p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        {item.kind === 'chart' ? (
+          <span className={`flex-1 text-sm truncate ${projectName(item.projectId) ? 'text-gray-800' : 'text-red-600'}`}>
+            {projectName(item.projectId) || 'Deleted chart'}
+          </span>
+        ) : (
+          <span className="flex-1 text-sm text-gray-500">Text block</span>
+        )}
+        <label className="flex items-center gap-1 text-xs text-gray-600" title="Span two grid columns">
+          <input
+            type="checkbox"
+            checked={item.wide}
+            onChange={(e) => onChange(updateItem(dashboard, { ...item, wide: e.target.checked }))}
+          />
+          Wide
+        </label>
+        <button
+          onClick={() => onChange(moveItem(dashboard, item.id, -1))}
+          disabled={index === 0}
+          className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+          title="Move up"
+        >
+          <ArrowUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onChange(moveItem(dashboard, item.id, 1))}
+          disabled={index === dashboard.items.length - 1}
+          className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+          title="Move down"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onChange(removeItem(dashboard, item.id))}
+          className="p-1 text-gray-500 hover:text-red-600"
+          title="Remove"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      {item.kind === 'text' && (
+        <textarea
+          value={item.markdown}
+          onChange={(e) => onChange(updateItem(dashboard, { ...item, markdown: e.target.value }))}
+          placeholder={'## Highlights\n- Sales up **12%** on last week'}
+          rows={3}
+          className={`${inputClassName} font-mono`}
+        />
+      )}
+    </li>
+  );
+
+  return (
+    <details className="bg-white rounded-xl shadow-lg border border-gray-200">
+      <summary className="p-6 cursor-pointer text-xl font-semibold text-gray-800 flex items-center gap-2 select-none">
+        <LayoutDashboard className="w-5 h-5" />
+        Dashboard
+        {dashboard.items.length > 0 && (
+          <span className="text-sm font-normal text-gray-500">· {dashboard.items.length} blocks</span>
+        )}
+      </summary>
+
+      <div className="px-6 pb-6 space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          <label className="col-span-2 block">
+            <span className="block text-xs text-gray-500 mb-1">Title</span>
+            <input
+              type="text"
+              value={dashboard.title}
+              onChange={(e) => onChange({ ...dashboard, title: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1">Columns</span>
+            <select
+              value={dashboard.columns}
+              onChange={(e) => onChange({ ...dashboard, columns: Number(e.target.value) as Dashboard['columns'] })}
+              className={inputClassName}
+            >
+              <option value={1}>1</option>
+              <option value={2}>2</option>
+              <option value={3}>3</option>
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Shared theme</span>
+          <div className="flex gap-2">
+            <select
+              value={dashboard.theme.name}
+              onChange={(e) => {
+                const selected = allThemes.find(theme => theme.name === e.target.value);
+                if (selected) onChange({ ...dashboard, theme: selected });
+              }}
+              className={inputClassName}
+            >
+              {allThemes.map(theme => (
+                <option key={theme.name} value={theme.name}>{theme.name}</option>
+              ))}
+              {!allThemes.some(theme => theme.name === dashboard.theme.name) && (
+                <option value={dashboard.theme.name}>{dashboard.theme.name}</option>
+              )}
+            </select>
+            <button
+              onClick={() => onChange({ ...dashboard, theme: currentTheme })}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors whitespace-nowrap"
+            >
+              Use editor theme
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={dashboard.filters.category}
+              onChange={(e) => onChange({ ...dashboard, filters: { ...dashboard.filters, category: e.target.checked } })}
+            />
+            Category selector
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={dashboard.filters.dateRange}
+              onChange={(e) => onChange({ ...dashboard, filters: { ...dashboard.filters, dateRange: e.target.checked } })}
+            />
+            Date range (time axis charts)
+          </label>
+        </div>
+
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-500">Save charts to the Chart Library to add them to a dashboard.</p>
+        ) : (
+          <div className="flex gap-2">
+            <select
+              value={selectedProject?.id || ''}
+              onChange={(e) => setProjectId(e.target.value)}
+              className={inputClassName}
+            >
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => selectedProject && onChange(addChartItem(dashboard, selectedProject.id))}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors whitespace-nowrap"
+            >
+              <Plus className="w-4 h-4" />
+              Add chart
+            </button>
+          </div>
+        )}
+
+        {dashboard.items.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">{dashboard.items.map(renderItem)}</ul>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange(addTextItem(dashboard))}
+            className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Type className="w-4 h-4" />
+            Add text
+          </button>
+          <button
+            onClick={onExport}
+            disabled={!hasCharts || exporting}
+            className="flex items-center gap-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 ml-auto"
+          >
+            <Download className="w-4 h-4" />
+            {exporting ? 'Exporting…' : 'Export dashboard HTML'}
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default DashboardPanel;
@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { ColumnInfo } from '../types';
+import { NumberLocale } from '../utils/coerce';
+import {
+  addColumn,
+  addRow,
+  coerceTable,
+  RawTable,
+  removeColumn,
+  removeRow,
+  renameColumn,
+  sortTable,
+  updateCell,
+} from '../utils/table';
+
+interface DataGridProps {
+  table: RawTable;
+  // Inferred types of the parsed columns, used for type badges and highlighting
+  columns: ColumnInfo[];
+  numberLocale: NumberLocale;
+  onChange: (table: RawTable) => void;
+  onError: (message: string) => void;
+}
+
+// Beyond this the grid is a preview; edit large files as text
+const MAX_ROWS = 500;
+
+const typeBadges: Record<ColumnInfo['type'], string> = {
+  number: 'bg-blue-100 text-blue-700',
+  date: 'bg-purple-100 text-purple-700',
+  text: 'bg-gray-100 text-gray-600',
+  empty: 'bg-gray-50 text-gray-400',
+};
+
+interface EditTarget {
+  // -1 is the header row
+  row: number;
+  column: number;
+}
+
+function DataGrid({ table, columns, numberLocale, onChange, onError }: DataGridProps) {
+  const [editing, setEditing] = useState<EditTarget | null>(null);
+  const [sort, setSort] = useState<{ column: number; direction: 'asc' | 'desc' } | null>(null);
+
+  // Coerced from the table itself: the parsed data can lag behind it or skip rows
+  const coercedRows = useMemo(() => coerceTable(table, numberLocale), [table, numberLocale]);
+
+  const columnType = (header: string) => columns.find(column => column.key === header)?.type || 'empty';
+
+  // Text left over in a number column means coercion couldn't read it
+  const isInvalid = (rowIndex: number, header: string) =>
+    columnType(header) === 'number' && typeof coercedRows[rowIndex]?.[header] === 'string';
+
+  const commit = (target: EditTarget, value: string) => {
+    setEditing(null);
+    if (target.row === -1) {
+      if (value === table.headers[target.column]) return;
+      try {
+        onChange(renameColumn(table, target.column, value));
+      } catch (err) {
+        onError(err instanceof Error ? err.message : 'Could not rename the column.');
+      }
+      return;
+    }
+    if (value !== table.rows[target.row][target.column]) {
+      onChange(updateCell(table, target.row, target.column, value));
+    }
+  };
+
+  const toggleSort = (column: number) => {
+    const direction = sort?.column === column && sort.direction === 'asc' ? 'desc' : 'asc';
+    setSort({ column, direction });
+    onChange(sortTable(table, column, direction, numberLocale));
+  };
+
+  const renderEditor = (target: EditTarget, value: string) => (
+    <input
+      autoFocus
+      defaultValue={value}
+      onBlur={(e) => commit(target, e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit(target, e.currentTarget.value);
+        if (e.key === 'Escape') setEditing(null);
+      }}
+      className="w-full min-w-[6rem] px-1 py-0.5 border border-blue-400 rounded text-sm focus:outline-none"
+    />
+  );
+
+  const isEditing = (row: number, column: number) => editing?.row === row && editing.column === column;
+
+  return (
+    <div className="border border-gray-300 rounded-lg">
+      <div className="overflow-auto max-h-96">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="w-8 border-b border-gray-200" />
+              {table.headers.map((header, column) => (
+                <th key={column} className="px-2 py-1 border-b border-l border-gray-200 text-left font-medium text-gray-700">
+                  <div className="flex items-center gap-1">
+                    {isEditing(-1, column) ? (
+                      renderEditor({ row: -1, column }, header)
+                    ) : (
+                      <button
+                        onClick={() => setEditing({ row: -1, column })}
+                        className="truncate max-w-[10rem] hover:text-blue-600"
+                        title="Rename column"
+                      >
+                        {header}
+                      </button>
+                    )}
+                    <span className={`px-1 rounded text-[10px] uppercase ${typeBadges[columnType(header)]}`}>
+                      {columnType(header)}
+                    </span>
+                    <button onClick={() => toggleSort(column)} className="p-0.5 text-gray-400 hover:text-gray-700" title="Sort">
+                      {sort?.column === column && sort.direction === 'desc' ? (
+                        <ArrowDown className="w-3 h-3" />
+                      ) : (
+                        <ArrowUp className={`w-3 h-3 ${sort?.column === column ? '' : 'opacity-50'}`} />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => onChange(removeColumn(table, column))}
+                      className="p-0.5 text-gray-400 hover:text-red-600"
+                      title="Remove column"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+              <th className="px-2 border-b border-l border-gray-200">
+                <button
+                  onClick={() => onChange(addColumn(table))}
+                  className="p-0.5 text-gray-500 hover:text-blue-600"
+                  title="Add column"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.slice(0, MAX_ROWS).map((row, rowIndex) => (
+              <tr key={rowIndex} className="group">
+                <td className="px-1 border-b border-gray-100 text-xs text-gray-400 text-right">{rowIndex + 1}</td>
+                {table.headers.map((header, column) => (
+                  <td
+                    key={column}
+                    onClick={() => !isEditing(rowIndex, column) && setEditing({ row: rowIndex, column })}
+                    className={`px-2 py-1 border-b border-l border-gray-100 cursor-text whitespace-nowrap ${
+                      isInvalid(rowIndex, header) ? 'bg-red-50 text-red-700' : 'text-gray-800'
+                    }`}
+                    title={isInvalid(rowIndex, header) ? 'Not recognized as a number' : undefined}
+                  >
+                    {isEditing(rowIndex, column) ? renderEditor({ row: rowIndex, column }, row[column] ?? '') : row[column]}
+                  </td>
+                ))}
+                <td className="px-1 border-b border-l border-gray-100">
+                  <button
+                    onClick={() => onChange(removeRow(table, rowIndex))}
+                    className="p-0.5 text-gray-300 group-hover:text-gray-500 hover:!text-red-600"
+                    title="Remove row"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between px-2 py-1 border-t border-gray-200 text-xs text-gray-500">
+        <button onClick={() => onChange(addRow(table))} className="flex items-center gap-1 hover:text-blue-600">
+          <Plus className="w-3 h-3" />
+          Add row
+        </button>
+        <span>
+          {table.rows.length > MAX_ROWS
+            ? `Showing ${MAX_ROWS} of ${table.rows.length} rows`
+            : `${table.rows.length} row${table.rows.length === 1 ? '' : 's'}`}
+          {table.format === 'json' && ' · edits rewrite the JSON as a flat array of records'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default DataGrid;
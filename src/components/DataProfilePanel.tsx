@@ -0,0 +1,56 @@
+import { ClipboardList } from 'lucide-react';
+import { ColumnProfile, DataProfile } from '../utils/profile';
+
+interface DataProfilePanelProps {
+  profile: DataProfile;
+}
+
+const formatRange = (column: ColumnProfile) => {
+  if (column.min === null || column.max === null) return '';
+  const format = (value: number) =>
+    column.type === 'date' ? new Date(value).toLocaleDateString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return column.min === column.max ? format(column.min) : `${format(column.min)} – ${format(column.max)}`;
+};
+
+function DataProfilePanel({ profile }: DataProfilePanelProps) {
+  return (
+    <details className="border border-gray-200 rounded-lg">
+      <summary className="p-3 cursor-pointer text-sm font-medium text-gray-700 flex items-center gap-2 select-none">
+        <ClipboardList className="w-4 h-4" />
+        Data Profile
+        <span className="font-normal text-gray-500">
+          · {profile.rows.toLocaleString()} rows, {profile.columns.length} columns
+        </span>
+      </summary>
+
+      <div className="p-3 pt-0 overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="py-1 pr-3 font-medium">Column</th>
+              <th className="py-1 pr-3 font-medium">Type</th>
+              <th className="py-1 pr-3 font-medium text-right">Distinct</th>
+              <th className="py-1 pr-3 font-medium text-right">Missing</th>
+              <th className="py-1 font-medium">Range</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.columns.map(column => (
+              <tr key={column.key} className="border-t border-gray-100">
+                <td className="py-1 pr-3 text-gray-800 truncate max-w-[10rem]">{column.key}</td>
+                <td className="py-1 pr-3 text-gray-600">{column.type}</td>
+                <td className="py-1 pr-3 text-gray-600 text-right">{column.distinct.toLocaleString()}</td>
+                <td className={`py-1 pr-3 text-right ${column.missing > 0 ? 'text-amber-700' : 'text-gray-600'}`}>
+                  {column.missing.toLocaleString()}
+                </td>
+                <td className="py-1 text-gray-600 whitespace-nowrap">{formatRange(column)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
+
+export default DataProfilePanel;
@@ -0,0 +1,74 @@
+import { Code2, FileCode, FileImage, FileJson, FileText, Image, Loader2 } from 'lucide-react';
+import { ExportFormat, ImageSize } from '../utils/exporters';
+
+interface ExportMenuProps {
+  imageSize: ImageSize;
+  busyFormat: ExportFormat | null;
+  onImageSizeChange: (size: ImageSize) => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+const formats: { value: ExportFormat; label: string; icon: typeof Image }[] = [
+  { value: 'png', label: 'PNG', icon: Image },
+  { value: 'svg', label: 'SVG', icon: FileImage },
+  { value: 'pdf', label: 'PDF', icon: FileText },
+  { value: 'json', label: 'Chart.js JSON', icon: FileJson },
+  { value: 'embed', label: 'Embed snippet', icon: Code2 },
+  { value: 'react', label: 'React component', icon: FileCode },
+];
+
+const sizePresets: { label: string; width: number; height: number }[] = [
+  { label: '1200 × 675 (16:9)', width: 1200, height: 675 },
+  { label: '1000 × 750 (4:3)', width: 1000, height: 750 },
+  { label: '800 × 800 (square)', width: 800, height: 800 },
+  { label: '1600 × 600 (wide)', width: 1600, height: 600 },
+];
+
+const selectClassName =
+  'p-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function ExportMenu({ imageSize, busyFormat, onImageSizeChange, onExport }: ExportMenuProps) {
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {formats.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => onExport(value)}
+            disabled={busyFormat !== null}
+            className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {busyFormat === value ? <Loader2 className="w-4 h-4 animate-spin" /> : <Icon className="w-4 h-4" />}
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <span>Image size</span>
+        <select
+          value={`${imageSize.width}x${imageSize.height}`}
+          onChange={(e) => {
+            const preset = sizePresets.find(p => `${p.width}x${p.height}` === e.target.value);
+            if (preset) onImageSizeChange({ ...imageSize, width: preset.width, height: preset.height });
+          }}
+          className={selectClassName}
+        >
+          {sizePresets.map(preset => (
+            <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+          ))}
+        </select>
+        <select
+          value={imageSize.scale}
+          onChange={(e) => onImageSizeChange({ ...imageSize, scale: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          <option value={1}>1× resolution</option>
+          <option value={2}>2× (high-DPI)</option>
+          <option value={3}>3× (print)</option>
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,145 @@
+import { DragEvent, useRef, useState } from 'react';
+import type { WorkBook } from 'xlsx';
+import { FileSpreadsheet, Upload } from 'lucide-react';
+import { Delimiter } from '../utils/csv';
+import {
+  acceptedFileTypes,
+  delimiterForKind,
+  detectFileKind,
+  getSheetRange,
+  readTextFile,
+  readWorkbook,
+  sheetToCsv,
+} from '../utils/fileImport';
+
+export interface ImportedFile {
+  fileName: string;
+  text: string;
+  delimiter: Delimiter | 'auto';
+}
+
+interface FileDropZoneProps {
+  onImport: (file: ImportedFile) => void;
+  onError: (message: string) => void;
+}
+
+// Files are read with the File API only; nothing leaves the browser.
+function FileDropZone({ onImport, onError }: FileDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [workbook, setWorkbook] = useState<{ fileName: string; book: WorkBook } | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [range, setRange] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importSheet = async (fileName: string, book: WorkBook, sheet: string, cellRange: string) => {
+    try {
+      const text = await sheetToCsv(book, sheet, cellRange);
+      onImport({ fileName, text, delimiter: ',' });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Could not read the sheet.');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setLoading(true);
+    try {
+      const kind = detectFileKind(file.name, new Uint8Array(await file.slice(0, 512).arrayBuffer()));
+      if (kind === 'xlsx') {
+        const book = await readWorkbook(file);
+        const firstSheet = book.SheetNames[0];
+        if (!firstSheet) throw new Error('The workbook has no sheets.');
+        setWorkbook({ fileName: file.name, book });
+        setSheetName(firstSheet);
+        setRange(getSheetRange(book, firstSheet));
+        await importSheet(file.name, book, firstSheet, '');
+      } else {
+        setWorkbook(null);
+        onImport({ fileName: file.name, text: await readTextFile(file), delimiter: delimiterForKind(kind) });
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const selectSheet = (sheet: string) => {
+    if (!workbook) return;
+    const sheetRange = getSheetRange(workbook.book, sheet);
+    setSheetName(sheet);
+    setRange(sheetRange);
+    importSheet(workbook.fileName, workbook.book, sheet, '');
+  };
+
+  return (
+    <div className="mb-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`flex items-center justify-center gap-2 p-4 border-2 border-dashed rounded-lg cursor-pointer text-sm transition-colors ${
+          dragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500 hover:border-gray-400'
+        }`}
+      >
+        <Upload className="w-4 h-4" />
+        {loading ? 'Reading file...' : 'Drop a .csv, .tsv, .json, .xlsx or .chartcraft.json project file here, or click to browse'}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={acceptedFileTypes}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            // Allow re-importing the same file after edits
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {workbook && (
+        <div className="mt-2 flex items-center gap-2 text-sm">
+          <FileSpreadsheet className="w-4 h-4 text-green-600 flex-shrink-0" />
+          <select
+            value={sheetName}
+            onChange={(e) => selectSheet(e.target.value)}
+            className="p-1 border border-gray-300 rounded-md text-sm"
+            title="Sheet"
+          >
+            {workbook.book.SheetNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            placeholder="A1:D20"
+            className="w-28 p-1 border border-gray-300 rounded-md text-sm font-mono"
+            title="Cell range"
+          />
+          <button
+            onClick={() => importSheet(workbook.fileName, workbook.book, sheetName, range)}
+            className="px-3 py-1 text-sm bg-green-100 text-green-700 rounded-md hover:bg-green-200 transition-colors"
+          >
+            Load range
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FileDropZone;
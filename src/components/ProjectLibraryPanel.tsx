@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { CopyPlus, FileDown, FolderOpen, Library, Save, Search, Trash2 } from 'lucide-react';
+import { ChartProject } from '../types';
+import { searchProjects } from '../utils/projectStore';
+
+interface ProjectLibraryPanelProps {
+  projects: ChartProject[];
+  currentProject: ChartProject | null;
+  onSave: (name: string, asNew: boolean) => void;
+  onOpen: (project: ChartProject) => void;
+  onDuplicate: (project: ChartProject) => void;
+  onDelete: (project: ChartProject) => void;
+  // Saves the current chart as a .chartcraft.json file named after `name`
+  onDownloadFile: (name: string) => void;
+}
+
+const inputClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+function ProjectLibraryPanel({
+  projects,
+  currentProject,
+  onSave,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onDownloadFile,
+}: ProjectLibraryPanelProps) {
+  const [name, setName] = useState(currentProject?.name || '');
+  const [query, setQuery] = useState('');
+  const results = searchProjects(projects, query);
+
+  // Follow the open project, e.g. after opening or duplicating one
+  useEffect(() => {
+    setName(currentProject?.name || '');
+  }, [currentProject?.id, currentProject?.name]);
+
+  return (
+    <details className="bg-white rounded-xl shadow-lg border border-gray-200">
+      <summary className="p-6 cursor-pointer text-xl font-semibold text-gray-800 flex items-center gap-2 select-none">
+        <Library className="w-5 h-5" />
+        Chart Library
+        {currentProject && <span className="text-sm font-normal text-gray-500 truncate">· {currentProject.name}</span>}
+      </summary>
+
+      <div className="px-6 pb-6 space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Project name, e.g. Weekly sales"
+            className={inputClassName}
+          />
+          <button
+            onClick={() => onSave(name.trim(), false)}
+            disabled={!name.trim()}
+            className="flex items-center gap-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {currentProject ? 'Save' : 'Save to library'}
+          </button>
+          {currentProject && (
+            <button
+              onClick={() => onSave(name.trim(), true)}
+              disabled={!name.trim()}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors whitespace-nowrap disabled:opacity-50"
+            >
+              Save as new
+            </button>
+          )}
+          <button
+            onClick={() => onDownloadFile(name.trim() || 'chart')}
+            className="p-2 text-gray-500 hover:text-blue-600"
+            title="Download as .chartcraft.json project file"
+          >
+            <FileDown className="w-4 h-4" />
+          </button>
+        </div>
+
+        {projects.length > 0 && (
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, title or chart type"
+              className={`${inputClassName} pl-8`}
+            />
+          </div>
+        )}
+
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved charts yet. Name this chart and save it to reuse it later.</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved charts match "{query}".</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-64 overflow-auto">
+            {results.map(project => (
+              <li
+                key={project.id}
+                className={`flex items-center gap-2 p-2 ${project.id === currentProject?.id ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{project.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {project.state.chartType} · {formatDate(project.updatedAt)}
+                  </p>
+                </div>
+                <button onClick={() => onOpen(project)} className="p-1 text-gray-500 hover:text-blue-600" title="Open">
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDuplicate(project)} className="p-1 text-gray-500 hover:text-blue-600" title="Duplicate">
+                  <CopyPlus className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(project)} className="p-1 text-gray-500 hover:text-red-600" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default ProjectLibraryPanel;
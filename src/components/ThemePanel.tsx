@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Palette as PaletteIcon, Save, Trash2, X } from 'lucide-react';
+import { PageTheme } from '../types';
+import { isHexColor, palettes, parseColorList } from '../utils/palettes';
+import { themePresets } from '../utils/themes';
+
+interface ThemePanelProps {
+  theme: PageTheme;
+  savedThemes: PageTheme[];
+  seriesNames: string[];
+  // Pie-like charts list their slices here instead of series
+  seriesHeading?: string;
+  seriesColors: Record<string, string>;
+  onChange: (theme: PageTheme) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onSeriesColorsChange: (colors: Record<string, string>) => void;
+}
+
+const inputClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Theme fields editable with a color picker. Gradients from presets are replaced once picked.
+const colorFields: [keyof PageTheme, string][] = [
+  ['pageBackground', 'Page'],
+  ['cardBackground', 'Card'],
+  ['headerBackground', 'Header'],
+  ['headerText', 'Title'],
+  ['textColor', 'Axis text'],
+  ['accentColor', 'Button'],
+];
+
+function ThemePanel({
+  theme,
+  savedThemes,
+  seriesNames,
+  seriesHeading = 'Series colors',
+  seriesColors,
+  onChange,
+  onSave,
+  onDelete,
+  onSeriesColorsChange,
+}: ThemePanelProps) {
+  const [themeName, setThemeName] = useState('');
+  const [customColorsText, setCustomColorsText] = useState(theme.customColors.join(', '));
+  const update = (changes: Partial<PageTheme>) => onChange({ ...theme, ...changes });
+  const allThemes = [...themePresets, ...savedThemes];
+  const isSaved = savedThemes.some(saved => saved.name === theme.name);
+
+  return (
+    <details className="border border-gray-200 rounded-lg">
+      <summary className="p-3 cursor-pointer text-sm font-medium text-gray-700 flex items-center gap-2 select-none">
+        <PaletteIcon className="w-4 h-4" />
+        Theme & Colors
+      </summary>
+
+      <div className="p-3 pt-0 space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Theme</span>
+            <div className="flex gap-1">
+              <select
+                value={theme.name}
+                onChange={(e) => {
+                  const selected = allThemes.find(t => t.name === e.target.value);
+                  if (!selected) return;
+                  onChange(selected);
+                  setCustomColorsText(selected.customColors.join(', '));
+                }}
+                className={inputClassName}
+              >
+                {allThemes.map(t => (
+                  <option key={t.name} value={t.name}>{t.name}</option>
+                ))}
+                {!allThemes.some(t => t.name === theme.name) && <option value={theme.name}>{theme.name}</option>}
+              </select>
+              {isSaved && (
+                <button
+                  onClick={() => onDelete(theme.name)}
+                  className="p-2 text-gray-500 hover:text-red-600"
+                  title="Delete saved theme"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Layout</span>
+            <select
+              value={theme.layout}
+              onChange={(e) => update({ layout: e.target.value as PageTheme['layout'] })}
+              className={inputClassName}
+            >
+              <option value="card">Card with title</option>
+              <option value="embed">Chart only (embed)</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Palette</span>
+          <select
+            value={theme.palette}
+            onChange={(e) => update({ palette: e.target.value })}
+            className={inputClassName}
+          >
+            {palettes.map(palette => (
+              <option key={palette.id} value={palette.id}>{palette.name}</option>
+            ))}
+          </select>
+          {theme.palette === 'custom' && (
+            <input
+              type="text"
+              value={customColorsText}
+              onChange={(e) => {
+                setCustomColorsText(e.target.value);
+                update({ customColors: parseColorList(e.target.value) });
+              }}
+              placeholder="#1f77b4, #ff7f0e, #2ca02c"
+              className={`${inputClassName} mt-2 font-mono`}
+            />
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {colorFields.map(([field, label]) => {
+            const value = String(theme[field]);
+            return (
+              <label key={field} className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="color"
+                  value={isHexColor(value) ? value : '#ffffff'}
+                  onChange={(e) => update({ [field]: e.target.value })}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                />
+                {label}
+              </label>
+            );
+          })}
+        </div>
+
+        {seriesNames.length > 0 && (
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">{seriesHeading}</span>
+            <div className="grid grid-cols-2 gap-2">
+              {seriesNames.map(name => (
+                <div key={name} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="color"
+                    value={seriesColors[name] || '#888888'}
+                    onChange={(e) => onSeriesColorsChange({ ...seriesColors, [name]: e.target.value })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                  />
+                  <span className={`flex-1 truncate ${seriesColors[name] ? 'text-gray-800' : 'text-gray-400'}`}>{name}</span>
+                  {seriesColors[name] && (
+                    <button
+                      onClick={() => {
+                        const rest = { ...seriesColors };
+                        delete rest[name];
+                        onSeriesColorsChange(rest);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Use palette color"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={themeName}
+            onChange={(e) => setThemeName(e.target.value)}
+            placeholder="Theme name"
+            className={inputClassName}
+          />
+          <button
+            onClick={() => {
+              onSave(themeName.trim());
+              setThemeName('');
+            }}
+            disabled={!themeName.trim() || themePresets.some(preset => preset.name === themeName.trim())}
+            className="flex items-center gap-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            Save theme
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default ThemePanel;
@@ -0,0 +1,106 @@
+import { Calendar } from 'lucide-react';
+import { TimeBucket, TimeOptions, TimeUnit } from '../types';
+
+interface TimeAxisPanelProps {
+  options: TimeOptions;
+  onChange: (options: TimeOptions) => void;
+}
+
+const unitOptions: { value: '' | TimeUnit; label: string }[] = [
+  { value: '', label: 'Auto' },
+  { value: 'hour', label: 'Hour' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+];
+
+const bucketOptions: { value: TimeBucket; label: string }[] = [
+  { value: 'none', label: 'No bucketing' },
+  { value: 'day', label: 'Per day' },
+  { value: 'week', label: 'Per week' },
+  { value: 'month', label: 'Per month' },
+];
+
+const selectClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function TimeAxisPanel({ options, onChange }: TimeAxisPanelProps) {
+  const update = (changes: Partial<TimeOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        <Calendar className="w-4 h-4" />
+        Time Axis
+      </label>
+
+      <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Plot labels on a time scale
+        </label>
+
+        {options.enabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">Unit</span>
+              <select
+                value={options.unit}
+                onChange={(e) => update({ unit: e.target.value as TimeOptions['unit'] })}
+                className={selectClassName}
+              >
+                {unitOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">Display format</span>
+              <input
+                type="text"
+                value={options.displayFormat}
+                onChange={(e) => update({ displayFormat: e.target.value })}
+                placeholder="e.g. MMM d, yyyy"
+                className={selectClassName}
+              />
+            </div>
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">Bucketing</span>
+              <select
+                value={options.bucket}
+                onChange={(e) => update({ bucket: e.target.value as TimeBucket })}
+                className={selectClassName}
+              >
+                {bucketOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {options.bucket !== 'none' && (
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Combine values by</span>
+                <select
+                  value={options.bucketAggregate}
+                  onChange={(e) => update({ bucketAggregate: e.target.value as TimeOptions['bucketAggregate'] })}
+                  className={selectClassName}
+                >
+                  <option value="sum">Sum</option>
+                  <option value="avg">Average</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TimeAxisPanel;
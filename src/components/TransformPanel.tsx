@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { AggregateFn, ColumnInfo, ComputedColumn, TransformOptions } from '../types';
+import { validateExpression } from '../utils/expressions';
+import { aggregateOptions } from '../utils/transforms';
+
+interface TransformPanelProps {
+  // Columns after the computed ones are added, for the grouping controls
+  columns: ColumnInfo[];
+  // Columns as parsed, which the first expression can refer to
+  sourceKeys: string[];
+  options: TransformOptions;
+  onChange: (options: TransformOptions) => void;
+}
+
+interface ExpressionInputProps {
+  value: string;
+  columns: string[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}
+
+const selectClassName =
+  'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Only valid expressions reach the chart; the draft keeps what is being typed.
+function ExpressionInput({ value, columns, placeholder, onChange }: ExpressionInputProps) {
+  const [draft, setDraft] = useState(value);
+  const error = draft.trim() ? validateExpression(draft, columns) : '';
+
+  // Follow outside changes, e.g. undo or opening a project
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <div className="flex-1 min-w-0">
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (!e.target.value.trim() || !validateExpression(e.target.value, columns)) onChange(e.target.value);
+        }}
+        placeholder={placeholder}
+        spellCheck={false}
+        aria-invalid={error !== ''}
+        className={`${selectClassName} font-mono ${error ? 'border-red-400' : ''}`}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function TransformPanel({ columns, sourceKeys, options, onChange }: TransformPanelProps) {
+  const update = (changes: Partial<TransformOptions>) => onChange({ ...options, ...changes });
+  const updateComputed = (index: number, changes: Partial<ComputedColumn>) =>
+    update({ computed: options.computed.map((column, i) => (i === index ? { ...column, ...changes } : column)) });
+  // Each expression sees the parsed columns plus the computed ones above it
+  const columnsBefore = (index: number) => [
+    ...sourceKeys,
+    ...options.computed.slice(0, index).map(column => column.name.trim()).filter(Boolean),
+  ];
+  const numericColumns = columns.filter(column => column.type === 'number' && column.key !== options.groupBy);
+  const categoryColumns = columns.filter(column => column.type !== 'number' && column.key !== options.groupBy);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        <Layers className="w-4 h-4" />
+        Transform
+      </label>
+
+      <div className="border border-gray-200 rounded-lg p-3 mb-2 space-y-2">
+        <span className="block text-xs text-gray-500">Computed columns</span>
+        {options.computed.map((column, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <input
+              type="text"
+              value={column.name}
+              onChange={(e) => updateComputed(index, { name: e.target.value })}
+              placeholder="Name"
+              className={`${selectClassName} w-28 flex-none`}
+            />
+            <span className="pt-2 text-sm text-gray-500">=</span>
+            <ExpressionInput
+              value={column.expression}
+              columns={columnsBefore(index)}
+              placeholder="sales - expenses"
+              onChange={(expression) => updateComputed(index, { expression })}
+            />
+            <button
+              onClick={() => update({ computed: options.computed.filter((_, i) => i !== index) })}
+              className="p-2 text-gray-500 hover:text-red-600"
+              title="Remove column"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ computed: [...options.computed, { name: '', expression: '' }] })}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add column
+        </button>
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Keep rows where</span>
+          <ExpressionInput
+            value={options.filter}
+            columns={columnsBefore(options.computed.length)}
+            placeholder="region = 'EU' and sales > 100"
+            onChange={(filter) => update({ filter })}
+          />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Use column names ([in brackets] if they have spaces), numbers, 'text', + - * / %, = != &lt; &gt;, and, or,
+          not, and abs, round, min, max, if, coalesce, contains. cumsum(x), movavg(x, n) and pct(x) work down the rows.
+        </p>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg p-3 grid grid-cols-2 gap-2">
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Group by</span>
+          <select
+            value={options.groupBy}
+            onChange={(e) => update({ groupBy: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">No grouping</option>
+            {columns.map(column => (
+              <option key={column.key} value={column.key}>{column.key}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Aggregate</span>
+          <select
+            value={options.aggregate}
+            onChange={(e) => update({ aggregate: e.target.value as AggregateFn })}
+            disabled={!options.groupBy}
+            className={`${selectClassName} disabled:bg-gray-50 disabled:text-gray-400`}
+          >
+            {aggregateOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {options.groupBy && (
+          <>
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">Split into series by</span>
+              <select
+                value={options.pivotSeries}
+                onChange={(e) => update({ pivotSeries: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">No pivot</option>
+                {categoryColumns.map(column => (
+                  <option key={column.key} value={column.key}>{column.key}</option>
+                ))}
+              </select>
+            </div>
+
+            {options.pivotSeries && options.aggregate !== 'count' && (
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Value column</span>
+                <select
+                  value={options.pivotValue}
+                  onChange={(e) => update({ pivotValue: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">Auto</option>
+                  {numericColumns.map(column => (
+                    <option key={column.key} value={column.key}>{column.key}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </>
+        )}
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Sort by value</span>
+          <select
+            value={options.sort}
+            onChange={(e) => update({ sort: e.target.value as TransformOptions['sort'] })}
+            className={selectClassName}
+          >
+            <option value="none">Keep order</option>
+            <option value="desc">Largest first</option>
+            <option value="asc">Smallest first</option>
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Top N (0 = all)</span>
+          <input
+            type="number"
+            min={0}
+            value={options.topN}
+            onChange={(e) => update({ topN: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className={selectClassName}
+          />
+        </div>
+
+        {options.topN > 0 && (
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.otherBucket}
+              onChange={(e) => update({ otherBucket: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Combine the remaining rows into "Other"
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TransformPanel;
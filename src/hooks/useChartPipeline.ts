@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditorState } from '../types';
+import { PipelineMessage, PipelineResult, PipelineStage } from '../utils/chartPipeline';
+
+interface PendingRun {
+  id: number;
+  resolve: (result: PipelineResult) => void;
+  reject: (reason: Error) => void;
+}
+
+export const isCancelled = (err: unknown) => err instanceof Error && err.name === 'AbortError';
+
+/**
+ * Runs the chart pipeline in a Web Worker, one run at a time: starting a run
+ * cancels an unfinished one, and cancelled runs reject with an AbortError.
+ * `stage` is the step the current run is on, or null when idle; there is no
+ * finer progress within a step.
+ */
+export function useChartPipeline() {
+  const worker = useRef<Worker | null>(null);
+  const pending = useRef<PendingRun | null>(null);
+  const nextId = useRef(0);
+  const [stage, setStage] = useState<PipelineStage | null>(null);
+
+  // Parsing is synchronous inside the worker, so terminating it is the only way to stop
+  const cancel = useCallback(() => {
+    if (!pending.current) return;
+    worker.current?.terminate();
+    worker.current = null;
+    const error = new Error('Cancelled.');
+    error.name = 'AbortError';
+    pending.current.reject(error);
+    pending.current = null;
+    setStage(null);
+  }, []);
+
+  const run = useCallback(
+    (state: EditorState) => {
+      cancel();
+      if (!worker.current) {
+        worker.current = new Worker(new URL('../workers/chartPipeline.worker.ts', import.meta.url), { type: 'module' });
+      }
+      const current = worker.current;
+      const id = ++nextId.current;
+
+      return new Promise<PipelineResult>((resolve, reject) => {
+        pending.current = { id, resolve, reject };
+        current.onmessage = (event: MessageEvent<PipelineMessage>) => {
+          const message = event.data;
+          if (message.id !== pending.current?.id) return;
+          if (message.type === 'stage') {
+            setStage(message.stage);
+            return;
+          }
+          pending.current = null;
+          setStage(null);
+          resolve(message.result);
+        };
+        current.onerror = (event) => {
+          event.preventDefault();
+          // The worker may be broken after an uncaught error; start a fresh one next time
+          current.terminate();
+          if (worker.current === current) worker.current = null;
+          pending.current = null;
+          setStage(null);
+          reject(new Error('The data could not be processed.'));
+        };
+        current.postMessage({ id, state });
+      });
+    },
+    [cancel]
+  );
+
+  useEffect(
+    () => () => {
+      worker.current?.terminate();
+      worker.current = null;
+    },
+    []
+  );
+
+  return { run, cancel, stage };
+}
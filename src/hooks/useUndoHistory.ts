@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const MAX_ENTRIES = 100;
+// Each step may hold its own copy of a large dataset, so big states keep fewer steps
+const MAX_LARGE_ENTRIES = 10;
+const LARGE_STATE = 1_000_000;
+
+// Top-level fields are compared one by one. Strings (a large input above all)
+// compare by value without being copied; objects by reference, and by content
+// only when they were rebuilt, which keeps this cheap enough to run every render.
+const sameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b));
+
+const sameState = <T extends object>(a: T, b: T) =>
+  a === b ||
+  (Object.keys(a).length === Object.keys(b).length &&
+    (Object.keys(a) as (keyof T)[]).every(key => sameValue(a[key], b[key])));
+
+// Strings make up nearly all of a snapshot's size
+const stateSize = (state: object) =>
+  Object.values(state).reduce((size: number, value) => size + (typeof value === 'string' ? value.length : 0), 0);
+
+/**
+ * Undo/redo over snapshots of `state`. Changes are recorded once they have
+ * settled for `delay` ms, so a burst of typing is one step. `apply` must put
+ * a snapshot back into the app; restored snapshots aren't recorded again.
+ */
+export function useUndoHistory<T extends object>(state: T, apply: (state: T) => void, delay = 600) {
+  const latest = useRef(state);
+  latest.current = state;
+  const committed = useRef(state);
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  // Bumped whenever the stacks change so canUndo/canRedo re-render
+  const [, setVersion] = useState(0);
+
+  // Moves the latest state onto the stack if it differs from the last recorded one
+  const commit = useCallback(() => {
+    if (sameState(latest.current, committed.current)) return;
+    const limit = stateSize(latest.current) > LARGE_STATE ? MAX_LARGE_ENTRIES : MAX_ENTRIES;
+    past.current = [...past.current, committed.current].slice(-limit);
+    future.current = [];
+    committed.current = latest.current;
+    setVersion(version => version + 1);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(commit, delay);
+    return () => clearTimeout(timer);
+  }, [state, delay, commit]);
+
+  const pending = !sameState(state, committed.current);
+
+  const restore = (snapshot: T) => {
+    committed.current = snapshot;
+    apply(snapshot);
+    setVersion(version => version + 1);
+  };
+
+  const undo = () => {
+    // An edit still waiting for the timer counts as the latest step
+    commit();
+    const previous = past.current[past.current.length - 1];
+    if (previous === undefined) return;
+    past.current = past.current.slice(0, -1);
+    future.current = [committed.current, ...future.current];
+    restore(previous);
+  };
+
+  const redo = () => {
+    const next = future.current[0];
+    if (next === undefined || pending) return;
+    future.current = future.current.slice(1);
+    past.current = [...past.current, committed.current];
+    restore(next);
+  };
+
+  /** Starts a fresh history from `snapshot`, e.g. after opening another project. */
+  const reset = useCallback((snapshot: T) => {
+    past.current = [];
+    future.current = [];
+    committed.current = snapshot;
+    setVersion(version => version + 1);
+  }, []);
+
+  return {
+    undo,
+    redo,
+    reset,
+    canUndo: past.current.length > 0 || pending,
+    canRedo: future.current.length > 0 && !pending,
+  };
+}
@@ -0,0 +1,45 @@
+// Library entry for generating charts outside the browser app, e.g. from the
+// CLI or a build script. Everything here is pure: no DOM, storage or network.
+import { ChartConfig, EditorState } from './types';
+import { createChartConfig, createChartConfigFromState } from './utils/chartConfig';
+import { restoreEditorState, validateEditorState } from './utils/editorState';
+import { generateDashboardHtml, generateHtmlSnippet } from './utils/htmlPage';
+import { parseInput } from './utils/parse';
+import { applyTransforms } from './utils/transforms';
+import { loadChartJsScript } from './utils/vendorScripts';
+
+export type * from './types';
+export type { ChartSettings } from './utils/chartConfig';
+export type { HtmlPageOptions } from './utils/htmlPage';
+export type { ParseOptions } from './utils/parse';
+export {
+  createChartConfig,
+  generateDashboardHtml,
+  generateHtmlSnippet,
+  parseInput,
+  applyTransforms,
+  restoreEditorState,
+  validateEditorState,
+};
+export { defaultEditorState } from './utils/editorState';
+export { buildDashboardCharts, defaultDashboard, restoreDashboard } from './utils/dashboard';
+export { generateColors } from './utils/palettes';
+export { themePresets } from './utils/themes';
+
+export interface RenderedChart {
+  config: ChartConfig;
+  html: string;
+}
+
+/**
+ * Runs the app's whole pipeline on `text`: parse, transform, build the chart
+ * and its standalone page. Fields missing from `state` take the app defaults,
+ * so `{ chartType: 'line', title: 'Sales' }` is enough.
+ */
+export const renderChart = async (text: string, state: Partial<EditorState> = {}): Promise<RenderedChart> => {
+  const settings = restoreEditorState({ ...state, input: text });
+  const { exportOptions } = settings;
+  const config = createChartConfigFromState(settings);
+  const chartJsSource = exportOptions.mode === 'offline' ? await loadChartJsScript() : undefined;
+  return { config, html: generateHtmlSnippet(config, { chartJsSource, integrity: exportOptions.integrity }) };
+};
@@ -0,0 +1,282 @@
+import type { NumberLocale } from './utils/coerce';
+import type { Delimiter } from './utils/csv';
+
+export interface DataObject {
+  [key: string]: string | number | null;
+}
+
+// Currency, percent or other unit text found around a column's numbers.
+export interface ValueUnit {
+  prefix: string;
+  suffix: string;
+}
+
+export interface ParsedData {
+  // json-columns is `{"month": [...], "sales": [...]}`; ndjson is one record per line.
+  type: 'csv' | 'json' | 'ndjson' | 'json-columns';
+  data: DataObject[];
+  units: Record<string, ValueUnit>;
+}
+
+export interface DataPoint {
+  x: number;
+  y: number | null;
+  // Bubble radius in pixels, and the size value from the data it was scaled from
+  r?: number;
+  _r?: number;
+}
+
+export interface ChartDataset {
+  label: string;
+  data: (number | null | DataPoint)[];
+  // Arrays color each slice of pie-like charts separately.
+  backgroundColor: string | string[];
+  borderColor: string | string[];
+  borderWidth: number;
+  tension?: number;
+  fill?: boolean;
+  pointBackgroundColor?: string;
+  pointRadius?: number;
+  // Set when a series renders differently from the chart type (combo charts).
+  type?: string;
+  yAxisID?: string;
+  unit?: ValueUnit;
+  // Trendlines: drawn dashed, never filled, stacked or downsampled with the data.
+  trend?: boolean;
+  borderDash?: number[];
+  showLine?: boolean;
+  stack?: string;
+}
+
+export type ColumnType = 'number' | 'date' | 'text' | 'empty';
+
+export interface ColumnInfo {
+  key: string;
+  type: ColumnType;
+}
+
+export interface SeriesMapping {
+  key: string;
+  enabled: boolean;
+  // Empty string renders the series with the chart's own type.
+  type: string;
+  axis: 'y' | 'y1';
+}
+
+export interface ColumnMapping {
+  labelKey: string;
+  series: SeriesMapping[];
+}
+
+export type TimeUnit = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type TimeBucket = 'none' | 'day' | 'week' | 'month';
+
+// User settings for charts whose label column holds dates.
+export interface TimeOptions {
+  enabled: boolean;
+  // Empty string lets Chart.js pick a unit from the data range.
+  unit: '' | TimeUnit;
+  // date-fns format string, e.g. "MMM d, yyyy". Empty uses Chart.js defaults.
+  displayFormat: string;
+  bucket: TimeBucket;
+  bucketAggregate: 'sum' | 'avg';
+}
+
+export interface TimeAxisConfig {
+  type: 'time';
+  unit?: TimeUnit;
+  displayFormat?: string;
+}
+
+export type DownsampleMethod = 'none' | 'lttb' | 'min-max';
+
+export type LegendPosition = 'top' | 'bottom' | 'left' | 'right';
+export type TooltipMode = 'index' | 'nearest' | 'point' | 'dataset';
+
+// Which kind of scales a chart type draws: x/y, a single radial r scale, or none.
+export type AxesKind = 'cartesian' | 'radial' | 'none';
+
+export interface ValueFormat {
+  // Overrides the unit detected in the data when either is set.
+  prefix: string;
+  suffix: string;
+  // Fixed number of decimals, or null for as many as needed.
+  decimals: number | null;
+}
+
+export interface ChartOptions {
+  xAxisTitle: string;
+  yAxisTitle: string;
+  // Title of the right-hand axis used by series mapped to y1.
+  y1AxisTitle: string;
+  scale: 'linear' | 'logarithmic';
+  beginAtZero: boolean;
+  suggestedMin: number | null;
+  suggestedMax: number | null;
+  stacked: boolean;
+  // Bar charts only: categories on the y axis.
+  horizontal: boolean;
+  // Line series only: shade the area under the line.
+  fill: boolean;
+  legend: {
+    display: boolean;
+    position: LegendPosition;
+  };
+  tooltipMode: TooltipMode;
+  valueFormat: ValueFormat;
+  // Pie, doughnut and polar area only: draw each slice's share on it.
+  showPercentages: boolean;
+  // Line and scatter only: reduce series longer than maxPoints before they are
+  // embedded; line charts on a time axis also decimate while drawing.
+  downsample: DownsampleMethod;
+  maxPoints: number;
+  // Textures, dash styles and point shapes per series, so they differ without color.
+  patterns: boolean;
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  kind: 'categorical' | 'sequential' | 'diverging';
+  // Categorical palettes cycle through these; the others interpolate between them.
+  colors: string[];
+}
+
+export interface PageTheme {
+  name: string;
+  // "embed" drops the header, card and download button: just the chart.
+  layout: 'card' | 'embed';
+  pageBackground: string;
+  cardBackground: string;
+  // Any CSS background, so presets can use gradients.
+  headerBackground: string;
+  headerText: string;
+  textColor: string;
+  gridColor: string;
+  accentColor: string;
+  palette: string;
+  // Hex colors used when palette is "custom".
+  customColors: string[];
+}
+
+export interface ChartConfig {
+  type: string;
+  title: string;
+  labels: string[];
+  datasets: ChartDataset[];
+  axes: AxesKind;
+  options: ChartOptions;
+  theme: PageTheme;
+  mapping?: ColumnMapping;
+  xAxis?: TimeAxisConfig;
+  // How derived columns and the row filter were defined, for reference only
+  expressions?: { computed: ComputedColumn[]; filter: string };
+  annotations?: AnnotationMark[];
+}
+
+export type TrendMethod = 'linear' | 'moving-average';
+
+// Marks the user adds over a cartesian chart. Positions are kept as typed: a
+// number, a date or a category label. "y" is the value axis, also on horizontal bars.
+export type ChartAnnotation =
+  | { id: string; kind: 'line'; axis: 'x' | 'y'; value: string; label: string; color: string }
+  | { id: string; kind: 'range'; axis: 'x' | 'y'; from: string; to: string; label: string; color: string }
+  // An empty y puts the callout on the first series' value at x
+  | { id: string; kind: 'point'; x: string; y: string; label: string; color: string }
+  // An empty series means every series; an empty color follows the series
+  | { id: string; kind: 'trend'; series: string; method: TrendMethod; window: number; color: string };
+
+// Annotations with positions resolved for the chart's axes: numbers on value,
+// time and scatter axes, labels on category axes. Trendlines become datasets.
+export type AnnotationMark =
+  | { kind: 'line'; axis: 'x' | 'y'; value: number | string; label: string; color: string }
+  | { kind: 'range'; axis: 'x' | 'y'; from: number | string; to: number | string; label: string; color: string }
+  | { kind: 'point'; x: number | string; y: number | null; label: string; color: string };
+
+// Column choices for scatter/bubble charts. Empty strings mean "not set".
+export interface PointMapping {
+  x: string;
+  y: string;
+  r: string;
+  group: string;
+}
+
+export type AggregateFn = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+// A derived column, e.g. { name: 'profit', expression: 'sales - expenses' }. See utils/expressions.
+export interface ComputedColumn {
+  name: string;
+  expression: string;
+}
+
+// Reshaping applied between parsing and chart building. Empty strings and 0 mean "off".
+export interface TransformOptions {
+  // Added in order before anything else, so grouping and sorting can use them.
+  computed: ComputedColumn[];
+  // Expression that rows must match to be kept; empty keeps every row.
+  filter: string;
+  groupBy: string;
+  aggregate: AggregateFn;
+  // Column whose values become separate series (long to wide pivot).
+  pivotSeries: string;
+  pivotValue: string;
+  sort: 'none' | 'asc' | 'desc';
+  topN: number;
+  otherBucket: boolean;
+}
+
+export interface ExportOptions {
+  // "cdn" loads Chart.js from jsDelivr; "offline" inlines it so the page works without network access.
+  mode: 'cdn' | 'offline';
+  // Adds a Subresource Integrity hash to the CDN script tag.
+  integrity: boolean;
+}
+
+// Everything the user edits in the app, saved with projects and in the undo history.
+export interface EditorState {
+  input: string;
+  chartType: string;
+  title: string;
+  delimiter: Delimiter | 'auto';
+  numberLocale: NumberLocale;
+  jsonPath: string;
+  pointMapping: PointMapping;
+  columnMapping: ColumnMapping;
+  transformOptions: TransformOptions;
+  exportOptions: ExportOptions;
+  chartOptions: ChartOptions;
+  theme: PageTheme;
+  seriesColors: Record<string, string>;
+  timeOptions: TimeOptions;
+  annotations: ChartAnnotation[];
+}
+
+export interface ChartProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  state: EditorState;
+  // Last generated chart, so a project reopens with its output
+  config: ChartConfig | null;
+  html: string;
+}
+
+// A block in a dashboard grid. Charts refer to saved projects, so re-saving a
+// chart in the library updates every dashboard that shows it.
+export type DashboardItem =
+  | { id: string; kind: 'chart'; projectId: string; wide: boolean }
+  | { id: string; kind: 'text'; markdown: string; wide: boolean };
+
+export interface Dashboard {
+  title: string;
+  columns: 1 | 2 | 3;
+  items: DashboardItem[];
+  // Applies to every chart, replacing the theme each was saved with.
+  theme: PageTheme;
+  // Controls in the exported page that filter all charts at once.
+  filters: {
+    category: boolean;
+    dateRange: boolean;
+  };
+}
@@ -0,0 +1,214 @@
+import { ChartConfig, ChartDataset, DataPoint, ValueUnit } from '../types';
+import { linearTrend } from './annotations';
+import { escapeHtml } from './escape';
+import { plural } from './profile';
+import { isSliceChart } from './validation';
+
+const chartNames: Record<string, string> = {
+  bar: 'Bar chart',
+  line: 'Line chart',
+  pie: 'Pie chart',
+  doughnut: 'Doughnut chart',
+  radar: 'Radar chart',
+  bubble: 'Bubble chart',
+  scatter: 'Scatter chart',
+  polarArea: 'Polar area chart',
+};
+
+// Past this many rows the table only adds weight to the page; the summary covers the rest.
+export const MAX_TABLE_ROWS = 1000;
+// Further series are counted but not described one by one.
+const MAX_DESCRIBED_SERIES = 8;
+
+// Same precedence as the page runtime: the option's prefix/suffix, then the unit found in the data
+const formatValue = (value: number, config: ChartConfig, unit?: ValueUnit) => {
+  const { prefix, suffix, decimals } = config.options.valueFormat;
+  const text =
+    decimals === null
+      ? value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+      : value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  if (prefix || suffix) return prefix + text + suffix;
+  return unit ? unit.prefix + text + unit.suffix : text;
+};
+
+// Local calendar day, matching how dates in the data are read
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatX = (x: number, config: ChartConfig) =>
+  config.xAxis?.type === 'time' ? formatDate(x) : x.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// One value per position: labels on category charts, x on point charts
+const seriesPoints = (dataset: ChartDataset, config: ChartConfig) =>
+  config.labels.length > 0
+    ? dataset.data.map((value, index) => ({
+        x: index,
+        label: config.labels[index] ?? '',
+        y: typeof value === 'number' ? value : null,
+      }))
+    : (dataset.data as DataPoint[]).map(point => ({ x: point.x, label: formatX(point.x, config), y: point.y }));
+
+// Spread arguments would overflow the stack on long series
+const extent = (values: number[]) =>
+  values.reduce(([min, max], value) => [Math.min(min, value), Math.max(max, value)], [Infinity, -Infinity]);
+
+// Compares how far the fitted line moves with how far the values spread
+const describeTrend = (xs: number[], ys: number[]) => {
+  if (ys.length < 3) return '';
+  const fitted = linearTrend(xs, ys);
+  const change = (fitted[fitted.length - 1] as number) - (fitted[0] as number);
+  const [min, max] = extent(ys);
+  const spread = max - min;
+  if (spread === 0 || Math.abs(change) < spread * 0.1) return ' and stays roughly flat';
+  return change > 0 ? ' and trends upward' : ' and trends downward';
+};
+
+const describeSeries = (dataset: ChartDataset, config: ChartConfig) => {
+  const points = seriesPoints(dataset, config).filter(point => point.y !== null) as {
+    x: number;
+    label: string;
+    y: number;
+  }[];
+  if (points.length === 0) return `${dataset.label} has no values.`;
+  const sorted = config.labels.length > 0 ? points : [...points].sort((a, b) => a.x - b.x);
+  const lowest = sorted.reduce((min, point) => (point.y < min.y ? point : min));
+  const highest = sorted.reduce((max, point) => (point.y > max.y ? point : max));
+  const value = (y: number) => formatValue(y, config, dataset.unit);
+  const range =
+    lowest.y === highest.y
+      ? `is ${value(lowest.y)} throughout`
+      : `ranges from ${value(lowest.y)} (${lowest.label}) to ${value(highest.y)} (${highest.label})`;
+  const trend = describeTrend(sorted.map(point => point.x), sorted.map(point => point.y));
+  return `${dataset.label} ${range}${trend}.`;
+};
+
+const describeSlices = (dataset: ChartDataset, config: ChartConfig) => {
+  const slices = dataset.data
+    .map((value, index) => ({ label: config.labels[index] ?? '', value: typeof value === 'number' ? value : null }))
+    .filter((slice): slice is { label: string; value: number } => slice.value !== null);
+  const total = slices.reduce((sum, slice) => sum + Math.abs(slice.value), 0);
+  if (slices.length === 0 || total === 0) return `${dataset.label} has no values.`;
+  const share = (value: number) => `${Math.round((Math.abs(value) / total) * 100)}%`;
+  const largest = slices.reduce((max, slice) => (slice.value > max.value ? slice : max));
+  const smallest = slices.reduce((min, slice) => (slice.value < min.value ? slice : min));
+  const value = (slice: { value: number }) =>
+    `${formatValue(slice.value, config, dataset.unit)}, ${share(slice.value)}`;
+  return `Largest: ${largest.label} (${value(largest)}). Smallest: ${smallest.label} (${value(smallest)}).`;
+};
+
+const describeAnnotations = (config: ChartConfig) => {
+  const position = (value: number | string, axis: 'x' | 'y') =>
+    typeof value === 'string' ? value : axis === 'x' ? formatX(value, config) : formatValue(value, config);
+  const marks = (config.annotations || []).map(mark => {
+    const name = mark.label ? ` "${mark.label}"` : '';
+    if (mark.kind === 'line') return `Reference line${name} at ${position(mark.value, mark.axis)}.`;
+    if (mark.kind === 'range') {
+      return `Shaded range${name} from ${position(mark.from, mark.axis)} to ${position(mark.to, mark.axis)}.`;
+    }
+    return `Callout${name} at ${position(mark.x, 'x')}.`;
+  });
+  const trends = config.datasets.filter(dataset => dataset.trend).map(dataset => dataset.label);
+  if (trends.length > 0) marks.push(`Trendlines: ${trends.join(', ')}.`);
+  return marks;
+};
+
+/**
+ * Plain-language description of a chart for screen readers: what it shows,
+ * each series' range with where the extremes are, its direction, and any
+ * annotations. Written once when the page is generated.
+ */
+export const describeChart = (config: ChartConfig): string => {
+  const series = config.datasets.filter(dataset => !dataset.trend);
+  const name = chartNames[config.type] || 'Chart';
+  const sentences: string[] = [];
+  const seriesCount = plural(series.length, 'series', 'series');
+  const categoryCount = plural(config.labels.length, 'category', 'categories');
+  const first = config.labels[0];
+  const last = config.labels[config.labels.length - 1];
+
+  if (isSliceChart(config.type)) {
+    sentences.push(`${name} of ${series.map(dataset => dataset.label).join(', ')} across ${categoryCount}.`);
+    series.slice(0, MAX_DESCRIBED_SERIES).forEach(dataset => sentences.push(describeSlices(dataset, config)));
+  } else {
+    if (config.labels.length > 0) {
+      const span = config.labels.length > 1 ? `, from ${first} to ${last}` : '';
+      sentences.push(`${name} with ${seriesCount} across ${categoryCount}${span}.`);
+    } else {
+      const xs = series.flatMap(dataset => (dataset.data as DataPoint[]).map(point => point.x));
+      const [min, max] = extent(xs);
+      const from = config.xAxis?.type === 'time' ? 'from' : 'with x from';
+      const span = xs.length > 0 ? `, ${from} ${formatX(min, config)} to ${formatX(max, config)}` : '';
+      sentences.push(`${name} with ${seriesCount} of ${plural(xs.length, 'point')}${span}.`);
+    }
+    series.slice(0, MAX_DESCRIBED_SERIES).forEach(dataset => sentences.push(describeSeries(dataset, config)));
+  }
+
+  if (series.length > MAX_DESCRIBED_SERIES) {
+    sentences.push(`${plural(series.length - MAX_DESCRIBED_SERIES, 'more series', 'more series')} not described.`);
+  }
+  return [...sentences, ...describeAnnotations(config)].join(' ');
+};
+
+const cell = (value: number | null | undefined, config: ChartConfig, unit?: ValueUnit) =>
+  value === null || value === undefined ? '' : escapeHtml(formatValue(value, config, unit));
+
+/**
+ * The chart's data as an HTML table with a caption and header cells, for
+ * readers who can't use the canvas. Trendlines are left out; they are
+ * derived from the values already listed. Long data is cut at MAX_TABLE_ROWS.
+ */
+export const createDataTable = (config: ChartConfig): string => {
+  const series = config.datasets.filter(dataset => !dataset.trend);
+  let head: string[];
+  let total: number;
+  let rows: string[][];
+
+  if (config.labels.length > 0) {
+    head = [config.mapping?.labelKey || 'Label', ...series.map(dataset => dataset.label)];
+    total = config.labels.length;
+    rows = config.labels.slice(0, MAX_TABLE_ROWS).map((label, index) => [
+      escapeHtml(label),
+      ...series.map(dataset => cell(dataset.data[index] as number | null, config, dataset.unit)),
+    ]);
+  } else if (config.xAxis?.type === 'time') {
+    // Time series share a date column; a series without a value on that date gets an empty cell
+    const points = series.map(dataset => dataset.data as DataPoint[]);
+    const xs = Array.from(new Set(points.flat().map(point => point.x))).sort((a, b) => a - b);
+    const lookups = points.map(data => new Map(data.map(point => [point.x, point.y])));
+    head = ['Date', ...series.map(dataset => dataset.label)];
+    total = xs.length;
+    rows = xs
+      .slice(0, MAX_TABLE_ROWS)
+      .map(x => [formatDate(x), ...lookups.map((lookup, index) => cell(lookup.get(x), config, series[index].unit))]);
+  } else {
+    const points = series.flatMap(dataset => (dataset.data as DataPoint[]).map(point => ({ dataset, point })));
+    // Bubble sizes are listed as in the data, not as the pixel radius they were scaled to
+    const sized = config.type === 'bubble' && points.some(({ point }) => point._r !== undefined);
+    head = ['Series', 'X', 'Y', ...(sized ? ['Size'] : [])];
+    total = points.length;
+    rows = points
+      .slice(0, MAX_TABLE_ROWS)
+      .map(({ dataset, point }) => [
+        escapeHtml(dataset.label),
+        escapeHtml(formatX(point.x, config)),
+        cell(point.y, config, dataset.unit),
+        ...(sized ? [point._r === undefined ? '' : escapeHtml(point._r.toLocaleString('en-US', { maximumFractionDigits: 2 }))] : []),
+      ]);
+  }
+
+  const cut = total > rows.length ? ` (first ${plural(rows.length, 'row')} of ${total.toLocaleString('en-US')})` : '';
+  const headerHtml = head.map(text => `<th scope="col">${escapeHtml(text)}</th>`).join('');
+  const bodyHtml = rows
+    .map(([first, ...rest]) => `<tr><th scope="row">${first}</th>${rest.map(value => `<td>${value}</td>`).join('')}</tr>`)
+    .join('\n');
+  return `<table>
+<caption>${escapeHtml(config.title || 'Chart data')}${cut}</caption>
+<thead><tr>${headerHtml}</tr></thead>
+<tbody>
+${bodyHtml}
+</tbody>
+</table>`;
+};
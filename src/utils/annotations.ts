@@ -0,0 +1,162 @@
+import { AnnotationMark, ChartAnnotation, ChartConfig, ChartDataset, DataPoint, TrendMethod } from '../types';
+import { toNumber } from './columns';
+import { parseDate } from './dates';
+import { movingAverage } from './expressions';
+
+export const annotationKinds: { value: ChartAnnotation['kind']; label: string }[] = [
+  { value: 'line', label: 'Reference line' },
+  { value: 'range', label: 'Shaded range' },
+  { value: 'point', label: 'Callout' },
+  { value: 'trend', label: 'Trendline' },
+];
+
+export const trendMethods: { value: TrendMethod; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'moving-average', label: 'Moving average' },
+];
+
+const DEFAULT_COLOR = '#dc2626';
+
+const createAnnotationId = () => `note-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** A new annotation of `kind` with empty positions, ready to fill in. */
+export const createAnnotation = (kind: ChartAnnotation['kind']): ChartAnnotation => {
+  const id = createAnnotationId();
+  switch (kind) {
+    case 'range':
+      return { id, kind, axis: 'x', from: '', to: '', label: '', color: '#f59e0b' };
+    case 'point':
+      return { id, kind, x: '', y: '', label: '', color: DEFAULT_COLOR };
+    case 'trend':
+      return { id, kind, series: '', method: 'linear', window: 3, color: '' };
+    default:
+      return { id, kind: 'line', axis: 'y', value: '', label: '', color: DEFAULT_COLOR };
+  }
+};
+
+// A typed x position becomes a timestamp on time axes, a number on scatter
+// charts and stays a label on category axes
+const resolveX = (text: string, config: ChartConfig): number | string | null => {
+  const value = text.trim();
+  if (!value) return null;
+  if (config.xAxis?.type === 'time') return parseDate(value);
+  if (config.labels.length === 0) return toNumber(value);
+  return value;
+};
+
+const resolve = (axis: 'x' | 'y', text: string, config: ChartConfig) =>
+  axis === 'x' ? resolveX(text, config) : toNumber(text.trim());
+
+const resolveMark = (annotation: ChartAnnotation, config: ChartConfig): AnnotationMark | null => {
+  switch (annotation.kind) {
+    case 'line': {
+      const value = resolve(annotation.axis, annotation.value, config);
+      if (value === null) return null;
+      return { kind: 'line', axis: annotation.axis, value, label: annotation.label, color: annotation.color };
+    }
+    case 'range': {
+      const from = resolve(annotation.axis, annotation.from, config);
+      const to = resolve(annotation.axis, annotation.to, config);
+      if (from === null || to === null) return null;
+      return { kind: 'range', axis: annotation.axis, from, to, label: annotation.label, color: annotation.color };
+    }
+    case 'point': {
+      const x = resolveX(annotation.x, config);
+      if (x === null) return null;
+      return { kind: 'point', x, y: toNumber(annotation.y.trim()), label: annotation.label, color: annotation.color };
+    }
+    default:
+      return null;
+  }
+};
+
+/** Least-squares line through the points that have a value, evaluated at every x. */
+export const linearTrend = (xs: number[], ys: (number | null)[]) => {
+  const present = ys.flatMap((y, index) => (y === null ? [] : [index]));
+  if (present.length < 2) return ys.map(() => null);
+  const meanX = present.reduce((sum, index) => sum + xs[index], 0) / present.length;
+  const meanY = present.reduce((sum, index) => sum + (ys[index] as number), 0) / present.length;
+  let covariance = 0;
+  let variance = 0;
+  present.forEach(index => {
+    covariance += (xs[index] - meanX) * ((ys[index] as number) - meanY);
+    variance += (xs[index] - meanX) ** 2;
+  });
+  const slope = variance === 0 ? 0 : covariance / variance;
+  return xs.map(x => meanY + slope * (x - meanX));
+};
+
+const trendValues = (annotation: Extract<ChartAnnotation, { kind: 'trend' }>, xs: number[], ys: (number | null)[]) =>
+  annotation.method === 'moving-average' ? movingAverage(ys, annotation.window) : linearTrend(xs, ys);
+
+const trendDataset = (
+  annotation: Extract<ChartAnnotation, { kind: 'trend' }>,
+  dataset: ChartDataset,
+  index: number,
+  config: ChartConfig
+): ChartDataset => {
+  let data: (number | null | DataPoint)[];
+  if (config.labels.length > 0) {
+    const ys = dataset.data.map(value => (typeof value === 'number' ? value : null));
+    data = trendValues(annotation, ys.map((_, position) => position), ys);
+  } else {
+    // Points can come in any order; a trend only makes sense along x
+    const points = [...(dataset.data as DataPoint[])].sort((a, b) => a.x - b.x);
+    const ys = trendValues(annotation, points.map(point => point.x), points.map(point => point.y));
+    data = points.map((point, position) => ({ x: point.x, y: ys[position] }));
+  }
+
+  const color = annotation.color || (typeof dataset.borderColor === 'string' ? dataset.borderColor : DEFAULT_COLOR);
+  const name = annotation.method === 'linear' ? 'trend' : `${Math.max(1, Math.floor(annotation.window))}-point average`;
+  const trend: ChartDataset = {
+    label: `${dataset.label} (${name})`,
+    data,
+    backgroundColor: color,
+    borderColor: color,
+    borderWidth: 2,
+    borderDash: [6, 4],
+    pointRadius: 0,
+    tension: 0,
+    fill: false,
+    showLine: true,
+    trend: true,
+    // Its own stack, so stacked charts don't add the trend onto the series
+    stack: `trend-${index}`,
+  };
+  // Scatter charts draw lines with showLine; bubbles can't, so they get a scatter series
+  if (config.type === 'bubble') trend.type = 'scatter';
+  else if (config.type !== 'line' && config.type !== 'scatter') trend.type = 'line';
+  if (dataset.yAxisID) trend.yAxisID = dataset.yAxisID;
+  if (dataset.unit) trend.unit = dataset.unit;
+  return trend;
+};
+
+/**
+ * Adds the user's annotations to a cartesian chart. Lines, ranges and callouts
+ * become marks the page runtime draws; trendlines are computed here into
+ * dashed datasets, so exported pages need nothing beyond Chart.js. Marks whose
+ * positions don't parse are left out.
+ */
+export const applyAnnotations = (config: ChartConfig, annotations: ChartAnnotation[]): ChartConfig => {
+  if (config.axes !== 'cartesian' || annotations.length === 0) return config;
+
+  const marks = annotations
+    .map(annotation => resolveMark(annotation, config))
+    .filter((mark): mark is AnnotationMark => mark !== null);
+  const trends = annotations.flatMap(annotation =>
+    annotation.kind === 'trend'
+      ? config.datasets
+          .filter(dataset => !annotation.series || dataset.label === annotation.series)
+          .map(dataset => ({ annotation, dataset }))
+      : []
+  );
+
+  return {
+    ...config,
+    datasets: [
+      ...config.datasets,
+      ...trends.map(({ annotation, dataset }, index) => trendDataset(annotation, dataset, index, config)),
+    ],
+    ...(marks.length > 0 ? { annotations: marks } : {}),
+  };
+};
@@ -0,0 +1,220 @@
+import { ChartConfig, ChartDataset, DataObject, DataPoint, EditorState, ParsedData, PointMapping } from '../types';
+import { applyAnnotations } from './annotations';
+import { getAxesKind, isPointChart, supportsCombo } from './chartTypes';
+import { getColumns, getNumericKeys, reconcileColumnMapping, toNumber } from './columns';
+import { buildTimeSeries } from './dates';
+import { downsampleChart } from './downsample';
+import { colorFromHex, generateColors } from './palettes';
+import { parseInput } from './parse';
+import { applyTransforms } from './transforms';
+import { isSliceChart } from './validation';
+
+// The editor fields that shape the chart itself (not parsing or export). The
+// transforms are already applied to the data; they are only recorded here.
+export type ChartSettings = Pick<
+  EditorState,
+  | 'chartType'
+  | 'title'
+  | 'pointMapping'
+  | 'columnMapping'
+  | 'chartOptions'
+  | 'theme'
+  | 'seriesColors'
+  | 'timeOptions'
+  | 'transformOptions'
+  | 'annotations'
+>;
+
+// Palette colors from the theme, with per-series overrides on top.
+const seriesColorsFor = (names: string[], { theme, seriesColors }: ChartSettings) => {
+  const colors = generateColors(names.length, theme);
+  return names.map((name, index) => (seriesColors[name] ? colorFromHex(seriesColors[name]) : colors[index]));
+};
+
+// Fill unset scatter/bubble columns with the first numeric columns, in order.
+export const resolvePointMapping = (data: DataObject[], { chartType, pointMapping }: ChartSettings): PointMapping => {
+  const keys = Object.keys(data[0]);
+  const numericKeys = getNumericKeys(data, keys);
+  const pick = (current: string, exclude: string[]) => {
+    if (current && keys.includes(current)) return current;
+    return numericKeys.find(key => !exclude.includes(key)) || '';
+  };
+
+  const x = pick(pointMapping.x, []);
+  const y = pick(pointMapping.y, [x]);
+  const r = chartType === 'bubble' ? pick(pointMapping.r, [x, y]) : '';
+  const group = keys.includes(pointMapping.group) ? pointMapping.group : '';
+  return { x, y, r, group };
+};
+
+// Keeps the expressions behind computed columns and the row filter with the exported config
+const recordExpressions = (config: ChartConfig, { transformOptions }: ChartSettings): ChartConfig => {
+  const computed = transformOptions.computed.filter(column => column.name.trim() && column.expression.trim());
+  const filter = transformOptions.filter.trim();
+  return computed.length > 0 || filter ? { ...config, expressions: { computed, filter } } : config;
+};
+
+const createPointConfig = (data: DataObject[], settings: ChartSettings): ChartConfig => {
+  const { chartType, title, chartOptions, theme } = settings;
+  const mapping = resolvePointMapping(data, settings);
+  if (!mapping.x || !mapping.y) {
+    throw new Error('Scatter and bubble charts need two numeric columns for X and Y.');
+  }
+
+  // Bubble radii are in pixels, so raw values are scaled into a readable range;
+  // the raw value stays on the point as _r for tooltips and the data table.
+  const radii = mapping.r
+    ? data.map(row => toNumber(row[mapping.r])).filter((v): v is number => v !== null)
+    : [];
+  const minR = Math.min(...radii);
+  const maxR = Math.max(...radii);
+  const scaleRadius = (value: number) =>
+    maxR === minR ? 10 : 4 + ((value - minR) / (maxR - minR)) * 16;
+
+  const groups = new Map<string, DataPoint[]>();
+  data.forEach(row => {
+    const x = toNumber(row[mapping.x]);
+    const y = toNumber(row[mapping.y]);
+    if (x === null || y === null) return;
+
+    const point: DataPoint = { x, y };
+    if (chartType === 'bubble') {
+      const r = mapping.r ? toNumber(row[mapping.r]) : null;
+      point.r = r === null ? 6 : scaleRadius(r);
+      if (r !== null) point._r = r;
+    }
+
+    const groupName = mapping.group ? String(row[mapping.group] ?? '') : `${mapping.y} vs ${mapping.x}`;
+    if (!groups.has(groupName)) groups.set(groupName, []);
+    groups.get(groupName)!.push(point);
+  });
+
+  if (groups.size === 0) {
+    throw new Error(`No rows have numeric values in both "${mapping.x}" and "${mapping.y}".`);
+  }
+
+  const colors = seriesColorsFor(Array.from(groups.keys()), settings);
+  const datasets = Array.from(groups, ([label, points], index) => ({
+    label,
+    data: points,
+    backgroundColor: colors[index].background,
+    borderColor: colors[index].border,
+    borderWidth: 2,
+  }));
+
+  return {
+    type: chartType,
+    title,
+    labels: [],
+    datasets,
+    axes: getAxesKind(chartType),
+    options: chartOptions,
+    theme,
+  };
+};
+
+/**
+ * Builds the serializable ChartConfig that every output (HTML page, preview,
+ * images, embeds) renders from. Throws with a user-facing message when the
+ * data can't be charted with these settings.
+ */
+export const createChartConfig = (parsedData: ParsedData, settings: ChartSettings): ChartConfig => {
+  const { chartType, title, columnMapping, chartOptions, theme, timeOptions } = settings;
+  const { data, units } = parsedData;
+  if (!data || data.length === 0) {
+    throw new Error('No data found.');
+  }
+
+  const keys = Object.keys(data[0]);
+
+  if (keys.length < 2) {
+    throw new Error('Data must have at least 2 columns (labels and values).');
+  }
+
+  if (isPointChart(chartType)) {
+    return downsampleChart(applyAnnotations(recordExpressions(createPointConfig(data, settings), settings), settings.annotations));
+  }
+
+  const columns = getColumns(data);
+  const mapping = reconcileColumnMapping(columnMapping, columns);
+  const series = mapping.series.filter(s => s.enabled);
+
+  if (series.length === 0) {
+    throw new Error('No value columns selected. Enable at least one numeric column in Column Mapping.');
+  }
+
+  const colors = seriesColorsFor(series.map(s => s.key), settings);
+  const sliced = isSliceChart(chartType);
+  const combo = supportsCombo(chartType);
+  const labelType = columns.find(column => column.key === mapping.labelKey)?.type;
+  const useTimeAxis = combo && timeOptions.enabled && labelType === 'date';
+
+  // Time axes take {x, y} points sorted by date; other charts index values by label.
+  let labels: string[] = [];
+  let seriesData: (number | null | DataPoint)[][];
+  if (useTimeAxis) {
+    const rows = buildTimeSeries(data, mapping.labelKey, series.map(s => s.key), timeOptions);
+    seriesData = series.map((_, index) => rows.map(row => ({ x: row.x, y: row.values[index] })));
+  } else {
+    labels = data.map(row => String(row[mapping.labelKey] ?? ''));
+    // Missing values stay null so Chart.js draws a gap instead of a zero
+    seriesData = series.map(s => data.map(row => toNumber(row[s.key])));
+  }
+
+  // Pie-like charts color each slice, so colors follow the labels instead of the series
+  const sliceColors = sliced ? seriesColorsFor(labels, settings) : [];
+
+  const datasets = series.map((s, index) => {
+    const seriesType = combo && s.type ? s.type : chartType;
+    const dataset: ChartDataset = {
+      label: s.key,
+      data: seriesData[index],
+      backgroundColor: colors[index].background,
+      borderColor: colors[index].border,
+      borderWidth: 2,
+      tension: seriesType === 'line' ? 0.4 : undefined,
+    };
+    if (sliced) {
+      dataset.backgroundColor = sliceColors.map(color => color.background);
+      dataset.borderColor = sliceColors.map(color => color.border);
+    } else if (seriesType === 'radar') {
+      dataset.backgroundColor = colors[index].area;
+      dataset.fill = true;
+      dataset.pointBackgroundColor = colors[index].border;
+      dataset.pointRadius = 3;
+    }
+    if (seriesType !== chartType) dataset.type = seriesType;
+    // Horizontal bars have no right-hand axis to put a second series on
+    const horizontal = chartOptions.horizontal && chartType === 'bar';
+    if (combo && !horizontal && s.axis === 'y1') dataset.yAxisID = 'y1';
+    if (units[s.key]) dataset.unit = units[s.key];
+    return dataset;
+  });
+
+  const config: ChartConfig = {
+    type: chartType,
+    title,
+    labels,
+    datasets,
+    axes: getAxesKind(chartType),
+    options: chartOptions,
+    theme,
+    mapping,
+  };
+  if (useTimeAxis) {
+    config.xAxis = {
+      type: 'time',
+      unit: timeOptions.unit || undefined,
+      displayFormat: timeOptions.displayFormat.trim() || undefined,
+    };
+  }
+  return downsampleChart(applyAnnotations(recordExpressions(config, settings), settings.annotations));
+};
+
+/** Parses and transforms the state's data, then builds its chart. */
+export const createChartConfigFromState = (state: EditorState): ChartConfig => {
+  const { input, delimiter, numberLocale, jsonPath, transformOptions, columnMapping } = state;
+  if (!input.trim()) throw new Error('This chart has no data.');
+  const parsed = parseInput(input, { delimiter, numberLocale, jsonPath });
+  return createChartConfig(applyTransforms(parsed, transformOptions, columnMapping), state);
+};
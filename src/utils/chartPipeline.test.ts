@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createChartPipeline } from './chartPipeline';
+import { restoreEditorState } from './editorState';
+
+const state = restoreEditorState({ chartType: 'pie', input: 'month,sales\nJan,10\nFeb,20\nMar,-5' });
+
+describe('createChartPipeline', () => {
+  it('returns the columns, profile, warnings and labels instead of the rows', () => {
+    const result = createChartPipeline()(state);
+    expect(result.error).toBe('');
+    expect(result.sourceColumns.map(column => column.key)).toEqual(['month', 'sales']);
+    expect(result.data?.profile.rows).toBe(3);
+    expect(result.data?.labels).toEqual(['Jan', 'Feb', 'Mar']);
+    expect(result.data?.warnings[0].message).toContain('negative');
+    expect(result.config?.labels).toEqual(['Jan', 'Feb', 'Mar']);
+    expect(result).not.toHaveProperty('parsed');
+  });
+
+  it('reuses the last parse and transform when only chart settings change', () => {
+    const run = createChartPipeline();
+    const first = run(state);
+    const second = run({ ...state, chartType: 'line', title: 'Sales' });
+    expect(second.sourceColumns).toBe(first.sourceColumns);
+    expect(second.data?.profile).toBe(first.data?.profile);
+    expect(second.config?.type).toBe('line');
+    expect(run({ ...state, input: 'month,sales\nApr,5' }).data?.labels).toEqual(['Apr']);
+  });
+
+  it('keeps the parsed columns when a transform fails', () => {
+    const result = createChartPipeline()({
+      ...state,
+      transformOptions: { ...state.transformOptions, computed: [{ name: 'bad', expression: 'sales +' }] },
+    });
+    expect(result.sourceColumns.map(column => column.key)).toEqual(['month', 'sales']);
+    expect(result.data).toBeNull();
+    expect(result.error).not.toBe('');
+  });
+});
@@ -0,0 +1,154 @@
+import { ChartConfig, ColumnInfo, DataObject, EditorState, ParsedData } from '../types';
+import { createChartConfig } from './chartConfig';
+import { isPointChart } from './chartTypes';
+import { getColumns, reconcileColumnMapping } from './columns';
+import { addComputedColumns } from './expressions';
+import { parseInput } from './parse';
+import { DataProfile, profileData } from './profile';
+import { applyTransforms } from './transforms';
+import { ChartWarning, validateChartData } from './validation';
+
+export type PipelineStage = 'parsing' | 'transforming' | 'building';
+
+export const pipelineStages: { stage: PipelineStage; label: string }[] = [
+  { stage: 'parsing', label: 'Parsing data' },
+  { stage: 'transforming', label: 'Applying transforms' },
+  { stage: 'building', label: 'Building chart' },
+];
+
+// What the editor shows about the transformed data, computed next to the chart
+// so no rows have to be sent back to the main thread
+export interface DataSummary {
+  columns: ColumnInfo[];
+  profile: DataProfile;
+  warnings: ChartWarning[];
+  // Distinct values of the label column, or null when there are more than MAX_LABELS
+  labels: string[] | null;
+}
+
+export interface PipelineResult {
+  // Columns as parsed, and with computed columns added; empty when parsing failed
+  sourceColumns: ColumnInfo[];
+  computedColumns: ColumnInfo[];
+  // Null when parsing or transforming failed
+  data: DataSummary | null;
+  config: ChartConfig | null;
+  // The first failure: a parse error leaves everything empty, a chart error only `config`
+  error: string;
+}
+
+export interface PipelineRequest {
+  id: number;
+  state: EditorState;
+}
+
+export type PipelineMessage =
+  | { id: number; type: 'stage'; stage: PipelineStage }
+  | { id: number; type: 'done'; result: PipelineResult };
+
+// Past this many, label values are typed rather than picked from a list
+export const MAX_LABELS = 500;
+
+const messageOf = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+const distinctLabels = (data: DataObject[], key: string) => {
+  const labels = new Set<string>();
+  for (const row of data) {
+    labels.add(String(row[key] ?? ''));
+    if (labels.size > MAX_LABELS) return null;
+  }
+  return Array.from(labels);
+};
+
+const sameValues = (a: unknown[], b: unknown[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+
+interface ParseStep {
+  key: unknown[];
+  parsed: ParsedData | null;
+  columns: ColumnInfo[];
+  error: string;
+}
+
+interface TransformStep {
+  key: unknown[];
+  computedColumns: ColumnInfo[];
+  transformed: ParsedData | null;
+  columns: ColumnInfo[];
+  profile: DataProfile | null;
+  error: string;
+}
+
+/**
+ * Returns a runner that parses, transforms and builds in one go, reporting
+ * each stage as it starts. It keeps its last parse and transform, so a run
+ * that only changes chart settings goes straight to building.
+ */
+export const createChartPipeline = () => {
+  let lastParse: ParseStep | null = null;
+  let lastTransform: TransformStep | null = null;
+
+  const parse = (state: EditorState): ParseStep => {
+    const { input, delimiter, numberLocale, jsonPath } = state;
+    const key = [input, delimiter, numberLocale, jsonPath];
+    if (lastParse && sameValues(lastParse.key, key)) return lastParse;
+    try {
+      const parsed = parseInput(input, { delimiter, numberLocale, jsonPath });
+      lastParse = { key, parsed, columns: getColumns(parsed.data), error: '' };
+    } catch (err) {
+      lastParse = { key, parsed: null, columns: [], error: messageOf(err, 'Could not parse the data.') };
+    }
+    return lastParse;
+  };
+
+  const transform = (parsed: ParsedData, sourceColumns: ColumnInfo[], state: EditorState): TransformStep => {
+    const { transformOptions, columnMapping } = state;
+    const key = [parsed, JSON.stringify(transformOptions), JSON.stringify(columnMapping)];
+    if (lastTransform && sameValues(lastTransform.key, key)) return lastTransform;
+
+    // Computed columns can be grouped, pivoted and sorted like parsed ones
+    let computedColumns = sourceColumns;
+    if (transformOptions.computed.length > 0) {
+      try {
+        computedColumns = getColumns(addComputedColumns(parsed.data, transformOptions.computed));
+      } catch {
+        // The transform below reports the bad expression
+      }
+    }
+    try {
+      const transformed = applyTransforms(parsed, transformOptions, columnMapping);
+      // Profiled after transforms, since that is the data the chart is built from
+      const columns = getColumns(transformed.data);
+      lastTransform = { key, computedColumns, transformed, columns, profile: profileData(transformed.data), error: '' };
+    } catch (err) {
+      const error = messageOf(err, 'Could not transform the data.');
+      lastTransform = { key, computedColumns, transformed: null, columns: [], profile: null, error };
+    }
+    return lastTransform;
+  };
+
+  return (state: EditorState, onStage: (stage: PipelineStage) => void = () => {}): PipelineResult => {
+    onStage('parsing');
+    const { parsed, columns: sourceColumns, error: parseError } = parse(state);
+    if (!parsed) return { sourceColumns, computedColumns: [], data: null, config: null, error: parseError };
+
+    onStage('transforming');
+    const step = transform(parsed, sourceColumns, state);
+    const { computedColumns, transformed, columns, profile } = step;
+    if (!transformed || !profile) return { sourceColumns, computedColumns, data: null, config: null, error: step.error };
+
+    onStage('building');
+    const { labelKey, series } = reconcileColumnMapping(state.columnMapping, columns);
+    const enabledSeries = series.filter(s => s.enabled).map(s => s.key);
+    const data: DataSummary = {
+      columns,
+      profile,
+      warnings: isPointChart(state.chartType) ? [] : validateChartData(state.chartType, transformed.data, enabledSeries),
+      labels: labelKey ? distinctLabels(transformed.data, labelKey) : [],
+    };
+    try {
+      return { sourceColumns, computedColumns, data, config: createChartConfig(transformed, state), error: '' };
+    } catch (err) {
+      return { sourceColumns, computedColumns, data, config: null, error: messageOf(err, 'Could not build the chart.') };
+    }
+  };
+};
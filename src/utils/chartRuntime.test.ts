@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DataPoint } from '../types';
+import { createChartConfigFromState } from './chartConfig';
+import { chartRuntimeScript } from './chartRuntime';
+import { restoreEditorState } from './editorState';
+import { buildChartJsConfig } from './pageRuntime';
+
+describe('chartRuntimeScript', () => {
+  it('runs as a classic inline script and defines the page functions', () => {
+    const defined = new Function(
+      `${chartRuntimeScript}\nreturn [typeof buildChartJsConfig, typeof renderChart, typeof enableKeyboardNavigation];`
+    )();
+    expect(defined).toEqual(['function', 'function', 'function']);
+  });
+});
+
+describe('buildChartJsConfig', () => {
+  it('shows the data value of a bubble size in the tooltip, not its pixel radius', () => {
+    const config = createChartConfigFromState(
+      restoreEditorState({ chartType: 'bubble', input: 'x,y,population\n1,2,1500\n3,4,90000' })
+    );
+    const point = config.datasets[0].data[1] as DataPoint;
+    expect(point).toMatchObject({ r: 20, _r: 90000 });
+    // Called the way Chart.js calls it, with only the fields the callback reads
+    const label = buildChartJsConfig(config).options?.plugins?.tooltip?.callbacks?.label as unknown as (
+      context: object
+    ) => string;
+    expect(label({ raw: point, parsed: { x: 3, y: 4, r: 20 }, dataset: config.datasets[0] })).toBe(
+      `${config.datasets[0].label}: (3, 4, ${(90000).toLocaleString()})`
+    );
+  });
+});
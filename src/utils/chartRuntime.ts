@@ -0,0 +1,7 @@
+import runtimeSource from './pageRuntime.js?raw';
+
+/**
+ * pageRuntime.js as inline script text. Without their `export` keywords its
+ * functions become globals of the page's script, which calls `renderChart`.
+ */
+export const chartRuntimeScript = runtimeSource.replace(/^export /gm, '');
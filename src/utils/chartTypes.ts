@@ -0,0 +1,48 @@
+import { AxesKind, ChartOptions } from '../types';
+
+const chartAxes: Record<string, AxesKind> = {
+  bar: 'cartesian',
+  line: 'cartesian',
+  scatter: 'cartesian',
+  bubble: 'cartesian',
+  radar: 'radial',
+  polarArea: 'radial',
+  pie: 'none',
+  doughnut: 'none',
+};
+
+export const getAxesKind = (type: string): AxesKind => chartAxes[type] || 'cartesian';
+
+export const chartTypeIds = Object.keys(chartAxes);
+
+export const isPointChart = (type: string) => type === 'scatter' || type === 'bubble';
+
+// Charts whose series can mix bar and line renderers and use a second y axis.
+export const supportsCombo = (type: string) => type === 'bar' || type === 'line';
+
+export const defaultChartOptions: ChartOptions = {
+  xAxisTitle: '',
+  yAxisTitle: '',
+  y1AxisTitle: '',
+  scale: 'linear',
+  beginAtZero: true,
+  suggestedMin: null,
+  suggestedMax: null,
+  stacked: false,
+  horizontal: false,
+  fill: false,
+  legend: {
+    display: true,
+    position: 'top',
+  },
+  tooltipMode: 'nearest',
+  valueFormat: {
+    prefix: '',
+    suffix: '',
+    decimals: null,
+  },
+  showPercentages: false,
+  downsample: 'none',
+  maxPoints: 2000,
+  patterns: false,
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { coerceData, coerceValue } from './coerce';
+
+describe('coerceValue', () => {
+  it('reads scientific notation', () => {
+    expect(coerceValue('1e5')?.value).toBe(100000);
+    expect(coerceValue('1.5e3')?.value).toBe(1500);
+    expect(coerceValue('2E-4')?.value).toBe(0.0002);
+    expect(coerceValue('-3.2e+2')?.value).toBe(-320);
+    expect(coerceValue('1,5e3', 'de')?.value).toBe(1500);
+  });
+
+  it('keeps units around an exponent', () => {
+    expect(coerceValue('$1.2e6')).toEqual({ value: 1200000, unit: { prefix: '$', suffix: '' } });
+    expect(coerceValue('4e1%')).toEqual({ value: 40, unit: { prefix: '', suffix: '%' } });
+  });
+
+  it('leaves text that only looks like an exponent alone', () => {
+    expect(coerceValue('1e')).toBeNull();
+    expect(coerceValue('e5')).toBeNull();
+    expect(coerceValue('SKU001')).toBeNull();
+  });
+});
+
+describe('coerceData', () => {
+  it('turns a column of scientific notation into numbers', () => {
+    const { data } = coerceData([{ value: '1e5' }, { value: '1.5e3' }, { value: '2E-4' }]);
+    expect(data.map(row => row.value)).toEqual([100000, 1500, 0.0002]);
+  });
+});
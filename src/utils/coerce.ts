@@ -0,0 +1,207 @@
+import { DataObject, ValueUnit } from '../types';
+
+export type NumberLocale = 'auto' | 'en' | 'de' | 'fr' | 'ch';
+
+interface NumberFormat {
+  decimal: string;
+  group: RegExp;
+}
+
+const numberFormats: Record<Exclude<NumberLocale, 'auto'>, NumberFormat> = {
+  en: { decimal: '.', group: /,/g },
+  de: { decimal: ',', group: /\./g },
+  fr: { decimal: ',', group: /\s/g },
+  ch: { decimal: '.', group: /['’]/g },
+};
+
+export const numberLocaleOptions: { value: NumberLocale; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'en', label: '1,234.56' },
+  { value: 'de', label: '1.234,56' },
+  { value: 'fr', label: '1 234,56' },
+  { value: 'ch', label: "1'234.56" },
+];
+
+// Optional sign, currency or other prefix, the number itself with an optional
+// exponent ("1.5e3"), then a unit suffix.
+const valuePattern = /^([-+]?)\s*([^\d\s.,+-]*)\s*([-+]?)\s*(\d[\d.,'’\s]*|[.,]\d+)([eE][-+]?\d+)?\s*([^\d\s]*)$/;
+
+// Active ISO 4217 codes. Only these count as three-letter units, so IDs like
+// "SKU001" or "INV042" stay text instead of becoming 1 and 42.
+const currencyCodes = new Set(
+  (
+    'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BRL BSD BTN BWP BYN BZD ' +
+    'CAD CDF CHF CLP CNY COP CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD ' +
+    'GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW KWD KYD KZT ' +
+    'LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MYR MZN NAD NGN NIO NOK NPR ' +
+    'NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP ' +
+    'STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD UYU UZS VES VND VUV WST XAF XCD XOF ' +
+    'XPF YER ZAR ZMW ZWL'
+  ).split(' ')
+);
+
+// Suffixes we treat as units. Anything else (e.g. "12 apples") stays text.
+const unitSuffixPattern = /^(%|‰|[€£$¥₹₩₽]|k|K|M|B|bn|x)?$/;
+const unitPrefixPattern = /^([€£$¥₹₩₽]|[A-Z]{1,2}\$)?$/;
+
+const isUnitPrefix = (prefix: string) => unitPrefixPattern.test(prefix) || currencyCodes.has(prefix);
+const isUnitSuffix = (suffix: string) => unitSuffixPattern.test(suffix) || currencyCodes.has(suffix);
+
+/**
+ * Guesses which separator is the decimal point when no locale is chosen:
+ * with both present the later one wins, and a lone separator followed by
+ * exactly three digits is read as a thousands separator.
+ */
+const detectFormat = (digits: string): NumberFormat => {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot !== -1 && lastComma !== -1) {
+    return lastComma > lastDot ? numberFormats.de : numberFormats.en;
+  }
+  if (/'|’/.test(digits)) return numberFormats.ch;
+  if (/\s\d{3}/.test(digits)) return numberFormats.fr;
+  if (lastComma !== -1) {
+    return /^\d{1,3}(,\d{3})+$/.test(digits) ? numberFormats.en : numberFormats.de;
+  }
+  return /^\d{1,3}(\.\d{3}){2,}$/.test(digits) ? numberFormats.de : numberFormats.en;
+};
+
+// The format a cell's separators imply, or null when they could be read either
+// way ("1,234", "1.234") or there are none
+const impliedFormat = (digits: string): NumberFormat | null => {
+  if (!/[.,'’\s]/.test(digits)) return null;
+  if (/^\d{1,3}[.,]\d{3}$/.test(digits)) return null;
+  return detectFormat(digits);
+};
+
+/**
+ * Picks one format for a whole column, so "1,234" and "1,5" in the same column
+ * aren't read with different decimal points. Cells whose separators can only
+ * mean one thing vote; if none can, the first cell with a separator decides.
+ */
+const detectColumnFormat = (digits: string[]): NumberFormat => {
+  const votes = new Map<NumberFormat, number>();
+  digits.forEach(cell => {
+    const format = impliedFormat(cell);
+    if (format) votes.set(format, (votes.get(format) || 0) + 1);
+  });
+  const [winner] = Array.from(votes).sort((a, b) => b[1] - a[1]);
+  if (winner) return winner[0];
+  const separated = digits.find(cell => /[.,]/.test(cell));
+  return separated ? detectFormat(separated) : numberFormats.en;
+};
+
+export interface CoercedValue {
+  value: number;
+  unit: ValueUnit;
+}
+
+interface ValueParts {
+  negative: boolean;
+  prefix: string;
+  digits: string;
+  exponent: string;
+  suffix: string;
+}
+
+// Splits a cell into sign, unit and digits, before the digits are read in any format
+const splitValue = (raw: string): ValueParts | null => {
+  let text = raw.trim();
+  // Accounting notation: (120) means -120
+  const accounting = /^\(.*\)$/.test(text);
+  if (accounting) text = text.slice(1, -1).trim();
+
+  const match = valuePattern.exec(text);
+  if (!match) return null;
+
+  const [, leadingSign, prefix, innerSign, digits, exponent = '', suffix] = match;
+  if (!isUnitPrefix(prefix) || !isUnitSuffix(suffix)) return null;
+  if (leadingSign && innerSign) return null;
+
+  const negative = leadingSign === '-' || innerSign === '-' || accounting;
+  return { negative, prefix, digits: digits.trim(), exponent, suffix };
+};
+
+const readValue = ({ negative, prefix, digits, exponent, suffix }: ValueParts, format: NumberFormat): CoercedValue | null => {
+  const normalized = digits.replace(format.group, '').replace(format.decimal, '.') + exponent;
+  if (!/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(normalized)) return null;
+
+  const value = Number(normalized);
+
+  // Keep codes like "EUR 12" and "12 €" readable when the unit is put back on
+  return {
+    value: negative ? -value : value,
+    unit: {
+      prefix: /^[A-Z]{3}$/.test(prefix) ? `${prefix} ` : prefix,
+      suffix: /^([A-Z]{3}|[€£$¥₹₩₽])$/.test(suffix) ? ` ${suffix}` : suffix,
+    },
+  };
+};
+
+/** Parses a formatted cell such as "$1,234", "45%", "1.234,56 €" or "(120)". */
+export const coerceValue = (raw: string | number | null, locale: NumberLocale = 'auto'): CoercedValue | null => {
+  if (typeof raw === 'number') return { value: raw, unit: { prefix: '', suffix: '' } };
+  if (raw === null) return null;
+  const parts = splitValue(raw);
+  if (!parts) return null;
+  return readValue(parts, locale === 'auto' ? detectFormat(parts.digits) : numberFormats[locale]);
+};
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = '';
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Converts mostly-numeric columns to numbers. Empty cells become `null` (a gap
+ * in the chart); cells that still fail to parse keep their original text so
+ * they can be shown to the user. Returns the unit seen in each numeric column.
+ */
+export const coerceData = (data: DataObject[], locale: NumberLocale = 'auto') => {
+  const units: Record<string, ValueUnit> = {};
+  if (data.length === 0) return { data, units };
+
+  const keys = Object.keys(data[0]);
+  const coerced = data.map(row => ({ ...row }));
+
+  keys.forEach(key => {
+    const cells = data.map(row => row[key]);
+    const filled = cells.filter(cell => cell !== null && cell !== undefined && String(cell).trim() !== '');
+    if (filled.length === 0) return;
+
+    const parts = cells.map(cell => (typeof cell === 'string' ? splitValue(cell) : null));
+    const format =
+      locale === 'auto' ? detectColumnFormat(parts.flatMap(part => (part ? [part.digits] : []))) : numberFormats[locale];
+    const results = cells.map((cell, index) => {
+      if (typeof cell === 'number') return coerceValue(cell);
+      const part = parts[index];
+      return part && readValue(part, format);
+    });
+    const parsed = results.filter((result): result is CoercedValue => result !== null);
+    if (parsed.length * 2 < filled.length) return;
+
+    results.forEach((result, index) => {
+      const cell = cells[index];
+      if (result) {
+        coerced[index][key] = result.value;
+      } else if (cell === undefined || cell === null || String(cell).trim() === '') {
+        coerced[index][key] = null;
+      }
+    });
+
+    const prefix = mostCommon(parsed.map(result => result.unit.prefix));
+    const suffix = mostCommon(parsed.map(result => result.unit.suffix));
+    if (prefix || suffix) units[key] = { prefix, suffix };
+  });
+
+  return { data: coerced, units };
+};
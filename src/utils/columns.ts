@@ -0,0 +1,44 @@
+import { ColumnInfo, ColumnMapping, ColumnType, DataObject } from '../types';
+import { isDateColumn } from './dates';
+
+export const toNumber = (value: string | number | null | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value === null || value === '') return null;
+  const numValue = Number(value);
+  return isNaN(numValue) ? null : numValue;
+};
+
+export const getNumericKeys = (data: DataObject[], keys: string[]) =>
+  keys.filter(key => data.some(row => toNumber(row[key]) !== null));
+
+const inferColumnType = (data: DataObject[], key: string): ColumnType => {
+  const values = data.map(row => row[key]).filter(value => value !== undefined && value !== null && value !== '');
+  if (values.length === 0) return 'empty';
+  if (isDateColumn(data, key)) return 'date';
+  // A few stray "N/A" cells shouldn't turn a numeric column into text.
+  const numericCount = values.filter(value => toNumber(value) !== null).length;
+  return numericCount * 2 >= values.length ? 'number' : 'text';
+};
+
+export const getColumns = (data: DataObject[]): ColumnInfo[] => {
+  if (data.length === 0) return [];
+  return Object.keys(data[0]).map(key => ({ key, type: inferColumnType(data, key) }));
+};
+
+/**
+ * Fits a saved mapping to the current columns: keeps the user's order and
+ * settings for columns that still exist and appends newly seen ones. New
+ * numeric columns are plotted by default; text columns start switched off.
+ */
+export const reconcileColumnMapping = (mapping: ColumnMapping, columns: ColumnInfo[]): ColumnMapping => {
+  const keys = columns.map(column => column.key);
+  const labelKey = keys.includes(mapping.labelKey) ? mapping.labelKey : keys[0] || '';
+
+  const series = mapping.series.filter(s => keys.includes(s.key) && s.key !== labelKey);
+  columns.forEach(column => {
+    if (column.key === labelKey || series.some(s => s.key === column.key)) return;
+    series.push({ key: column.key, enabled: column.type === 'number', type: '', axis: 'y' });
+  });
+
+  return { labelKey, series };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCSV('name,note\n"Smith, John","a,b"').rows).toEqual([['Smith, John', 'a,b']]);
+  });
+
+  it('reads "" inside quotes as a literal quote', () => {
+    expect(parseCSV('title,n\n"She said ""hi""",1\n"""",2').rows).toEqual([
+      ['She said "hi"', '1'],
+      ['"', '2'],
+    ]);
+  });
+
+  it('lets quoted fields span lines', () => {
+    const table = parseCSV('id,address\n1,"12 Main St\nSpringfield"\n2,"x\r\ny"');
+    expect(table.rows).toEqual([
+      ['1', '12 Main St\nSpringfield'],
+      ['2', 'x\r\ny'],
+    ]);
+  });
+
+  it('accepts CRLF line endings and skips blank lines', () => {
+    expect(parseCSV('a,b\r\n1,2\r\n\r\n3,4\r\n')).toEqual({
+      delimiter: ',',
+      headers: ['a', 'b'],
+      rows: [
+        ['1', '2'],
+        ['3', '4'],
+      ],
+    });
+  });
+
+  it('trims unquoted fields but keeps quoted ones verbatim', () => {
+    expect(parseCSV('a , b\n  1 ,  " 2 "  ').rows).toEqual([['1', ' 2 ']]);
+  });
+
+  it('reports unterminated quotes and ragged rows with their line', () => {
+    expect(() => parseCSV('a,b\n1,"open\n2,3')).toThrow('Unterminated quoted field starting on line 2.');
+    expect(() => parseCSV('a,b\n1,2\n"multi\nline",2,3')).toThrow(
+      'Expected 2 columns per row (from the header), but line 3 has 3.'
+    );
+    expect(() => parseCSV('a,b')).toThrow('CSV must have at least a header row and one data row.');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that gives consistent columns', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3\n4;5;6')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(detectDelimiter('a|b\n1|2')).toBe('|');
+    // Decimal commas inside semicolon-separated rows
+    expect(detectDelimiter('name;price\nA;1,5\nB;2,75\nC;3')).toBe(';');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a;x","b;y"\n"1;2","3;4"')).toBe(',');
+  });
+
+  it('scores a sample that ends inside a quoted field on its complete records', () => {
+    const rows = Array.from({ length: 5 }, (_, index) => `${index};x`);
+    expect(detectDelimiter(['id;note', ...rows, '20;"unfinished, quoted'].join('\n'))).toBe(';');
+  });
+
+  it('falls back to a comma when nothing splits', () => {
+    expect(detectDelimiter('one column\nonly')).toBe(',');
+  });
+});
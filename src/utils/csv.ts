@@ -0,0 +1,152 @@
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+export const delimiterOptions: { value: Delimiter | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+interface CsvRecord {
+  cells: string[];
+  line: number;
+}
+
+export interface CsvTable {
+  delimiter: Delimiter;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Splits delimited text into records following RFC 4180: fields may be quoted,
+ * `""` inside a quoted field is a literal quote, and quoted fields may span
+ * lines. Unquoted fields are trimmed; quoted ones are kept verbatim.
+ */
+const readRecords = (text: string, delimiter: Delimiter, maxRecords = Infinity): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    cells.push(quoted ? current : current.trim());
+    current = '';
+    quoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // Blank lines are not records
+    if (cells.length > 1 || cells[0] !== '') {
+      records.push({ cells, line: recordLine });
+    }
+    cells = [];
+  };
+
+  for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && current.trim() === '') {
+      // Opening quote; whitespace before it is not part of the field
+      inQuotes = true;
+      quoted = true;
+      current = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (!(quoted && /\s/.test(char))) {
+      // Whitespace between a closing quote and the delimiter is dropped
+      current += char;
+    }
+  }
+
+  if (inQuotes) {
+    // A sample (maxRecords set) may be cut in the middle of a quoted field;
+    // the records before it are still complete
+    if (maxRecords !== Infinity) return records;
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}.`);
+  }
+  if (records.length < maxRecords && (current !== '' || quoted || cells.length > 0)) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Picks the delimiter that splits the first few records into the most columns
+ * while keeping the column count consistent between them.
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const candidates: Delimiter[] = [',', ';', '\t', '|'];
+  let best: Delimiter = ',';
+  let bestScore = 0;
+
+  candidates.forEach(delimiter => {
+    const records = readRecords(text, delimiter, 20);
+    if (records.length === 0) return;
+
+    const width = records[0].cells.length;
+    if (width < 2) return;
+    const consistent = records.filter(record => record.cells.length === width).length;
+    const score = (consistent / records.length) * 100 + width;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+export const parseCSV = (text: string, delimiter: Delimiter | 'auto' = 'auto'): CsvTable => {
+  const resolved = delimiter === 'auto' ? detectDelimiter(text) : delimiter;
+  const records = readRecords(text, resolved);
+
+  if (records.length < 2) {
+    throw new Error('CSV must have at least a header row and one data row.');
+  }
+
+  const headers = records[0].cells;
+  const mismatched = records.slice(1).filter(record => record.cells.length !== headers.length);
+  if (mismatched.length > 0) {
+    const details = mismatched
+      .slice(0, 5)
+      .map(record => `line ${record.line} has ${record.cells.length}`)
+      .join(', ');
+    const more = mismatched.length > 5 ? ` and ${mismatched.length - 5} more` : '';
+    throw new Error(
+      `Expected ${headers.length} columns per row (from the header), but ${details}${more}. Check the delimiter or quoting.`
+    );
+  }
+
+  return {
+    delimiter: resolved,
+    headers,
+    rows: records.slice(1).map(record => record.cells),
+  };
+};
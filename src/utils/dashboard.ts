@@ -0,0 +1,81 @@
+import { ChartConfig, ChartProject, Dashboard, DashboardItem, EditorState } from '../types';
+import { createChartConfigFromState } from './chartConfig';
+import { defaultTheme } from './themes';
+
+export const defaultDashboard: Dashboard = {
+  title: 'Dashboard',
+  columns: 2,
+  items: [],
+  theme: defaultTheme,
+  filters: { category: false, dateRange: false },
+};
+
+/** Fills in fields that a dashboard saved by an older version doesn't have yet. */
+export const restoreDashboard = (saved: Partial<Dashboard>): Dashboard => ({
+  ...defaultDashboard,
+  ...saved,
+  items: Array.isArray(saved.items) ? saved.items : [],
+  theme: { ...defaultTheme, ...saved.theme },
+  filters: { ...defaultDashboard.filters, ...saved.filters },
+});
+
+const createItemId = () => `item-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const addChartItem = (dashboard: Dashboard, projectId: string): Dashboard => ({
+  ...dashboard,
+  items: [...dashboard.items, { id: createItemId(), kind: 'chart', projectId, wide: false }],
+});
+
+export const addTextItem = (dashboard: Dashboard): Dashboard => ({
+  ...dashboard,
+  items: [...dashboard.items, { id: createItemId(), kind: 'text', markdown: '', wide: true }],
+});
+
+export const updateItem = (dashboard: Dashboard, item: DashboardItem): Dashboard => ({
+  ...dashboard,
+  items: dashboard.items.map(current => (current.id === item.id ? item : current)),
+});
+
+export const removeItem = (dashboard: Dashboard, id: string): Dashboard => ({
+  ...dashboard,
+  items: dashboard.items.filter(item => item.id !== id),
+});
+
+/** Moves an item one place up (-1) or down (1) in the grid order. */
+export const moveItem = (dashboard: Dashboard, id: string, offset: -1 | 1): Dashboard => {
+  const index = dashboard.items.findIndex(item => item.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= dashboard.items.length) return dashboard;
+  const items = [...dashboard.items];
+  [items[index], items[target]] = [items[target], items[index]];
+  return { ...dashboard, items };
+};
+
+/**
+ * Builds every chart in the dashboard from its saved project, with the
+ * dashboard theme, one at a time. Charts that can't be built are reported
+ * rather than failing the whole export. `build` defaults to building in
+ * place; the app passes one that runs in its Web Worker.
+ */
+export const buildDashboardCharts = async (
+  dashboard: Dashboard,
+  projects: ChartProject[],
+  build: (state: EditorState) => ChartConfig | Promise<ChartConfig> = createChartConfigFromState
+) => {
+  const charts: Record<string, ChartConfig> = {};
+  const errors: string[] = [];
+  for (const item of dashboard.items) {
+    if (item.kind !== 'chart') continue;
+    const project = projects.find(candidate => candidate.id === item.projectId);
+    if (!project) {
+      errors.push('A chart in this dashboard was deleted from the library.');
+      continue;
+    }
+    try {
+      charts[item.id] = await build({ ...project.state, theme: dashboard.theme });
+    } catch (err) {
+      errors.push(`"${project.name}": ${err instanceof Error ? err.message : 'could not build the chart.'}`);
+    }
+  }
+  return { charts, errors };
+};
@@ -0,0 +1,103 @@
+import { DataObject, TimeBucket, TimeOptions } from '../types';
+
+// Epoch milliseconds between 2001-09-09 and 2286-11-20; smaller numbers are
+// far more likely to be plain values (or years) than timestamps.
+const MIN_EPOCH_MS = 1e12;
+const MAX_EPOCH_MS = 1e13;
+
+const dateOnlyPattern = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+const isoDateTimePattern = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const yearMonthPattern = /^(\d{4})-(\d{2})$/;
+
+/**
+ * Reads a timestamp from ISO dates (`2024-01-15`), ISO date-times and epoch
+ * milliseconds. Plain dates are taken as local midnight so they don't shift
+ * by a day when displayed.
+ */
+export const parseDate = (value: string | number | null | undefined): number | null => {
+  if (typeof value === 'number') {
+    return value >= MIN_EPOCH_MS && value < MAX_EPOCH_MS ? value : null;
+  }
+  if (!value) return null;
+  const text = value.trim();
+
+  const dateOnly = dateOnlyPattern.exec(text);
+  if (dateOnly) {
+    const date = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    return isNaN(date.getTime()) ? null : date.getTime();
+  }
+
+  const yearMonth = yearMonthPattern.exec(text);
+  if (yearMonth) {
+    return new Date(Number(yearMonth[1]), Number(yearMonth[2]) - 1, 1).getTime();
+  }
+
+  if (isoDateTimePattern.test(text)) {
+    const time = Date.parse(text.replace(' ', 'T'));
+    return isNaN(time) ? null : time;
+  }
+
+  return null;
+};
+
+export const isDateColumn = (data: DataObject[], key: string) => {
+  const values = data.map(row => row[key]).filter(value => value !== null && value !== undefined && value !== '');
+  return values.length > 0 && values.every(value => parseDate(value) !== null);
+};
+
+const bucketStart = (time: number, bucket: TimeBucket) => {
+  const date = new Date(time);
+  if (bucket === 'none') return time;
+  date.setHours(0, 0, 0, 0);
+  if (bucket === 'week') {
+    // ISO weeks start on Monday
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  } else if (bucket === 'month') {
+    date.setDate(1);
+  }
+  return date.getTime();
+};
+
+export interface TimeSeriesRow {
+  x: number;
+  values: (number | null)[];
+}
+
+/**
+ * Turns rows into chronologically sorted points, optionally merging rows that
+ * fall into the same day/week/month. Rows whose label isn't a date are dropped.
+ */
+export const buildTimeSeries = (
+  data: DataObject[],
+  labelKey: string,
+  valueKeys: string[],
+  options: TimeOptions
+): TimeSeriesRow[] => {
+  const rows: TimeSeriesRow[] = [];
+  data.forEach(row => {
+    const time = parseDate(row[labelKey]);
+    if (time === null) return;
+    // Values are already coerced by parseInput; anything else is a gap
+    const values = valueKeys.map(key => (typeof row[key] === 'number' ? (row[key] as number) : null));
+    rows.push({ x: bucketStart(time, options.bucket), values });
+  });
+  rows.sort((a, b) => a.x - b.x);
+
+  if (options.bucket === 'none') return rows;
+
+  const merged: TimeSeriesRow[] = [];
+  for (let start = 0; start < rows.length; ) {
+    let end = start;
+    while (end < rows.length && rows[end].x === rows[start].x) end++;
+    const group = rows.slice(start, end);
+    const values = valueKeys.map((_, index) => {
+      const present = group.map(r => r.values[index]).filter((v): v is number => v !== null);
+      if (present.length === 0) return null;
+      const sum = present.reduce((total, v) => total + v, 0);
+      return options.bucketAggregate === 'avg' ? sum / present.length : sum;
+    });
+    merged.push({ x: rows[start].x, values });
+    start = end;
+  }
+  return merged;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ChartConfig, DataPoint, DownsampleMethod } from '../types';
+import { createChartConfigFromState } from './chartConfig';
+import { downsampleChart, lttb, MIN_DOWNSAMPLE_POINTS, minMax } from './downsample';
+import { restoreEditorState } from './editorState';
+
+const xs = Array.from({ length: 1000 }, (_, index) => index);
+// A slow wave with one spike up and one down
+const ys = xs.map(x => (x === 400 ? 500 : x === 700 ? -500 : Math.sin(x / 50) * 10));
+
+describe('lttb', () => {
+  it('keeps the first and last point and exactly `threshold` points in order', () => {
+    const kept = lttb(xs, ys, 100);
+    expect(kept).toHaveLength(100);
+    expect(kept[0]).toBe(0);
+    expect(kept[kept.length - 1]).toBe(999);
+    expect([...kept].sort((a, b) => a - b)).toEqual(kept);
+  });
+
+  it('keeps the spikes', () => {
+    const kept = lttb(xs, ys, 100);
+    expect(kept).toContain(400);
+    expect(kept).toContain(700);
+  });
+
+  it('keeps every point at or below the threshold', () => {
+    expect(lttb(xs.slice(0, 50), ys.slice(0, 50), 50)).toEqual(xs.slice(0, 50));
+    expect(lttb(xs.slice(0, 50), ys.slice(0, 50), 80)).toEqual(xs.slice(0, 50));
+  });
+});
+
+describe('minMax', () => {
+  it('keeps the lowest and highest point of every bucket', () => {
+    const kept = minMax(ys, 100);
+    expect(kept.length).toBeLessThanOrEqual(100);
+    expect(kept).toContain(ys.indexOf(Math.max(...ys)));
+    expect(kept).toContain(ys.indexOf(Math.min(...ys)));
+    expect([...kept].sort((a, b) => a - b)).toEqual(kept);
+  });
+
+  it('keeps every point at or below the threshold', () => {
+    expect(minMax(ys.slice(0, 10), 10)).toEqual(xs.slice(0, 10));
+  });
+});
+
+// Built with downsampling off, so only downsampleChart below thins it
+const lineChart = (rows = 1000): ChartConfig =>
+  createChartConfigFromState(
+    restoreEditorState({
+      chartType: 'line',
+      input: ['step,value', ...Array.from({ length: rows }, (_, index) => `s${index},${ys[index]}`)].join('\n'),
+    })
+  );
+
+const downsampled = (config: ChartConfig, downsample: DownsampleMethod, maxPoints: number) =>
+  downsampleChart({ ...config, options: { ...config.options, downsample, maxPoints } });
+
+describe('downsampleChart', () => {
+  it('thins category lines to the point budget, keeping both ends and the extremes', () => {
+    const config = downsampled(lineChart(), 'min-max', 200);
+    expect(config.labels.length).toBeLessThanOrEqual(200);
+    expect(config.labels[0]).toBe('s0');
+    expect(config.labels).toContain('s400');
+    expect(config.labels).toContain('s700');
+    expect(config.datasets[0].data).toHaveLength(config.labels.length);
+  });
+
+  it('never goes below the minimum number of points', () => {
+    const config = downsampled(lineChart(), 'lttb', 10);
+    expect(config.labels).toHaveLength(MIN_DOWNSAMPLE_POINTS);
+    expect(config.labels[0]).toBe('s0');
+    expect(config.labels[config.labels.length - 1]).toBe('s999');
+  });
+
+  it('leaves charts under the budget and charts with downsampling off alone', () => {
+    expect(downsampled(lineChart(), 'lttb', 2000).labels).toHaveLength(1000);
+    expect(downsampled(lineChart(), 'none', 100).labels).toHaveLength(1000);
+  });
+
+  it('reduces point series one by one after sorting them along x', () => {
+    const points: DataPoint[] = xs.map(x => ({ x: 999 - x, y: ys[999 - x] }));
+    const config = lineChart(10);
+    const thinned = downsampled({ ...config, labels: [], datasets: [{ ...config.datasets[0], data: points }] }, 'lttb', 100);
+    const kept = thinned.datasets[0].data as DataPoint[];
+    expect(kept).toHaveLength(100);
+    expect(kept[0]).toEqual({ x: 0, y: ys[0] });
+    expect(kept[kept.length - 1]).toEqual({ x: 999, y: ys[999] });
+  });
+});
@@ -0,0 +1,122 @@
+import { ChartConfig, DataPoint, DownsampleMethod } from '../types';
+
+// Below this a series has too few points left to keep its shape.
+export const MIN_DOWNSAMPLE_POINTS = 100;
+
+/**
+ * Largest-Triangle-Three-Buckets: splits the series into `threshold - 2`
+ * buckets and keeps the point from each that forms the largest triangle with
+ * the previous pick and the next bucket's average, which preserves peaks and
+ * the overall shape. `xs` must be sorted. Returns positions in order.
+ */
+export const lttb = (xs: number[], ys: number[], threshold: number): number[] => {
+  const length = xs.length;
+  if (threshold >= length || threshold < 3) return xs.map((_, index) => index);
+
+  const kept = [0];
+  const bucketSize = (length - 2) / (threshold - 2);
+  let previous = 0;
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let averageX = 0;
+    let averageY = 0;
+    for (let index = nextStart; index < nextEnd; index++) {
+      averageX += xs[index];
+      averageY += ys[index];
+    }
+    averageX /= nextEnd - nextStart;
+    averageY /= nextEnd - nextStart;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let largestArea = -1;
+    let chosen = start;
+    for (let index = start; index < end; index++) {
+      const area = Math.abs(
+        (xs[previous] - averageX) * (ys[index] - ys[previous]) - (xs[previous] - xs[index]) * (averageY - ys[previous])
+      );
+      if (area > largestArea) {
+        largestArea = area;
+        chosen = index;
+      }
+    }
+    kept.push(chosen);
+    previous = chosen;
+  }
+  kept.push(length - 1);
+  return kept;
+};
+
+/**
+ * Keeps the lowest and highest point of each of `threshold / 2` equal
+ * buckets, so spikes survive even where LTTB would smooth them away.
+ */
+export const minMax = (ys: number[], threshold: number): number[] => {
+  const length = ys.length;
+  if (threshold >= length) return ys.map((_, index) => index);
+
+  const buckets = Math.max(1, Math.floor(threshold / 2));
+  const kept: number[] = [];
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * length) / buckets);
+    const end = Math.floor(((bucket + 1) * length) / buckets);
+    let min = start;
+    let max = start;
+    for (let index = start; index < end; index++) {
+      if (ys[index] < ys[min]) min = index;
+      if (ys[index] > ys[max]) max = index;
+    }
+    kept.push(Math.min(min, max));
+    if (min !== max) kept.push(Math.max(min, max));
+  }
+  return kept;
+};
+
+// Gaps (null values) can't be part of a triangle or a range, so they are skipped.
+const selectIndices = (method: DownsampleMethod, xs: number[], ys: (number | null)[], threshold: number) => {
+  const valid = ys.flatMap((y, index) => (y === null ? [] : [index]));
+  const validYs = valid.map(index => ys[index] as number);
+  const positions = method === 'lttb' ? lttb(valid.map(index => xs[index]), validYs, threshold) : minMax(validYs, threshold);
+  return positions.map(position => valid[position]);
+};
+
+/**
+ * Applies the chart's downsampling option. Category charts share one label
+ * list, so every series gets a share of the budget and the union of their
+ * picks is kept; point series (time axes, scatter) are reduced one by one.
+ */
+export const downsampleChart = (config: ChartConfig): ChartConfig => {
+  const { downsample, maxPoints } = config.options;
+  if (downsample === 'none' || (config.type !== 'line' && config.type !== 'scatter')) return config;
+  const limit = Math.max(MIN_DOWNSAMPLE_POINTS, Math.floor(maxPoints));
+
+  if (config.labels.length > 0) {
+    if (config.labels.length <= limit) return config;
+    // Trendlines are smooth by construction, so only the data picks what to keep
+    const series = config.datasets.filter(dataset => !dataset.trend);
+    const share = Math.max(MIN_DOWNSAMPLE_POINTS, Math.floor(limit / series.length));
+    const positions = config.labels.map((_, index) => index);
+    const keep = new Set<number>();
+    series.forEach(dataset => {
+      selectIndices(downsample, positions, dataset.data as (number | null)[], share).forEach(index => keep.add(index));
+    });
+    const indices = Array.from(keep).sort((a, b) => a - b);
+    return {
+      ...config,
+      labels: indices.map(index => config.labels[index]),
+      datasets: config.datasets.map(dataset => ({ ...dataset, data: indices.map(index => dataset.data[index]) })),
+    };
+  }
+
+  return {
+    ...config,
+    datasets: config.datasets.map(dataset => {
+      if (dataset.data.length <= limit) return dataset;
+      // Scatter points can come in any order; a line's shape only exists along x
+      const points = [...(dataset.data as DataPoint[])].sort((a, b) => a.x - b.x);
+      const indices = selectIndices(downsample, points.map(point => point.x), points.map(point => point.y), limit);
+      return { ...dataset, data: indices.map(index => points[index]) };
+    }),
+  };
+};
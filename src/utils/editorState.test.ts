@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { defaultEditorState, restoreEditorState, validateEditorState } from './editorState';
+
+describe('validateEditorState', () => {
+  it('fills in fields that older versions did not save', () => {
+    const { state, invalid } = validateEditorState({ input: 'a,b\n1,2', chartOptions: { stacked: true } });
+    expect(invalid).toEqual([]);
+    expect(state.input).toBe('a,b\n1,2');
+    expect(state.chartOptions).toEqual({ ...defaultEditorState.chartOptions, stacked: true });
+    expect(state.annotations).toEqual([]);
+  });
+
+  it('replaces malformed fields with defaults and names them', () => {
+    const { state, invalid } = validateEditorState({
+      title: 'Kept',
+      annotations: 'x',
+      transformOptions: { computed: { name: 'a' }, topN: 5 },
+      chartOptions: { legend: { position: 'middle' } },
+      columnMapping: { labelKey: 'month', series: [{ key: 'sales' }] },
+      chartType: 'toString',
+    });
+    expect(invalid).toEqual([
+      'chartType',
+      'columnMapping.series',
+      'transformOptions.computed',
+      'chartOptions.legend.position',
+      'annotations',
+    ]);
+    expect(state.title).toBe('Kept');
+    expect(state.annotations).toEqual([]);
+    expect(state.transformOptions.computed).toEqual([]);
+    expect(state.transformOptions.topN).toBe(5);
+    expect(state.columnMapping).toEqual({ labelKey: 'month', series: [] });
+    expect(state.chartType).toBe('bar');
+  });
+
+  it('rejects annotations of unknown kinds or with missing fields', () => {
+    const { invalid } = validateEditorState({ annotations: [{ id: 'a', kind: 'constructor' }] });
+    expect(invalid).toEqual(['annotations']);
+  });
+
+  it('treats a state that is not an object as damaged', () => {
+    expect(validateEditorState('x').invalid).toEqual(['state']);
+    expect(restoreEditorState(null as never)).toEqual(defaultEditorState);
+  });
+});
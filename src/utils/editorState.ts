@@ -0,0 +1,164 @@
+import { ChartAnnotation, EditorState } from '../types';
+import { annotationKinds, trendMethods } from './annotations';
+import { numberLocaleOptions } from './coerce';
+import { chartTypeIds, defaultChartOptions } from './chartTypes';
+import { delimiterOptions } from './csv';
+import { defaultTheme } from './themes';
+import { aggregateOptions, defaultTransformOptions } from './transforms';
+
+export const defaultEditorState: EditorState = {
+  input: '',
+  chartType: 'bar',
+  title: 'My Chart',
+  delimiter: 'auto',
+  numberLocale: 'auto',
+  jsonPath: '',
+  pointMapping: { x: '', y: '', r: '', group: '' },
+  columnMapping: { labelKey: '', series: [] },
+  transformOptions: defaultTransformOptions,
+  exportOptions: { mode: 'cdn', integrity: false },
+  chartOptions: defaultChartOptions,
+  theme: defaultTheme,
+  seriesColors: {},
+  timeOptions: {
+    enabled: true,
+    unit: '',
+    displayFormat: '',
+    bucket: 'none',
+    bucketAggregate: 'sum',
+  },
+  annotations: [],
+};
+
+type Check = (value: unknown) => boolean;
+
+// Nested objects are checked field by field, so one bad field doesn't discard its siblings
+interface Spec {
+  [key: string]: Check | Spec;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const oneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+const optionOf = (options: { value: unknown }[]) => oneOf(options.map(option => option.value));
+const orNull = (check: Check): Check => value => value === null || check(value);
+const listOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const valuesOf = (check: Check): Check => value => isRecord(value) && Object.values(value).every(check);
+const shape = (checks: Record<string, Check>): Check => value =>
+  isRecord(value) && Object.entries(checks).every(([key, check]) => check(value[key]));
+
+const annotationShapes: Record<ChartAnnotation['kind'], Check> = {
+  line: shape({ id: isString, axis: oneOf(['x', 'y']), value: isString, label: isString, color: isString }),
+  range: shape({ id: isString, axis: oneOf(['x', 'y']), from: isString, to: isString, label: isString, color: isString }),
+  point: shape({ id: isString, x: isString, y: isString, label: isString, color: isString }),
+  trend: shape({ id: isString, series: isString, method: optionOf(trendMethods), window: isNumber, color: isString }),
+};
+const isAnnotation: Check = value =>
+  isRecord(value) &&
+  optionOf(annotationKinds)(value.kind) &&
+  annotationShapes[value.kind as ChartAnnotation['kind']](value);
+
+const editorStateSpec: Record<keyof EditorState, Check | Spec> = {
+  input: isString,
+  chartType: oneOf(chartTypeIds),
+  title: isString,
+  delimiter: optionOf(delimiterOptions),
+  numberLocale: optionOf(numberLocaleOptions),
+  jsonPath: isString,
+  pointMapping: { x: isString, y: isString, r: isString, group: isString },
+  columnMapping: {
+    labelKey: isString,
+    series: listOf(shape({ key: isString, enabled: isBoolean, type: isString, axis: oneOf(['y', 'y1']) })),
+  },
+  transformOptions: {
+    computed: listOf(shape({ name: isString, expression: isString })),
+    filter: isString,
+    groupBy: isString,
+    aggregate: optionOf(aggregateOptions),
+    pivotSeries: isString,
+    pivotValue: isString,
+    sort: oneOf(['none', 'asc', 'desc']),
+    topN: isNumber,
+    otherBucket: isBoolean,
+  },
+  exportOptions: { mode: oneOf(['cdn', 'offline']), integrity: isBoolean },
+  chartOptions: {
+    xAxisTitle: isString,
+    yAxisTitle: isString,
+    y1AxisTitle: isString,
+    scale: oneOf(['linear', 'logarithmic']),
+    beginAtZero: isBoolean,
+    suggestedMin: orNull(isNumber),
+    suggestedMax: orNull(isNumber),
+    stacked: isBoolean,
+    horizontal: isBoolean,
+    fill: isBoolean,
+    legend: { display: isBoolean, position: oneOf(['top', 'bottom', 'left', 'right']) },
+    tooltipMode: oneOf(['index', 'nearest', 'point', 'dataset']),
+    valueFormat: { prefix: isString, suffix: isString, decimals: orNull(isNumber) },
+    showPercentages: isBoolean,
+    downsample: oneOf(['none', 'lttb', 'min-max']),
+    maxPoints: isNumber,
+    patterns: isBoolean,
+  },
+  theme: {
+    name: isString,
+    layout: oneOf(['card', 'embed']),
+    pageBackground: isString,
+    cardBackground: isString,
+    headerBackground: isString,
+    headerText: isString,
+    textColor: isString,
+    gridColor: isString,
+    accentColor: isString,
+    palette: isString,
+    customColors: listOf(isString),
+  },
+  seriesColors: valuesOf(isString),
+  timeOptions: {
+    enabled: isBoolean,
+    unit: oneOf(['', 'hour', 'day', 'week', 'month', 'quarter', 'year']),
+    displayFormat: isString,
+    bucket: oneOf(['none', 'day', 'week', 'month']),
+    bucketAggregate: oneOf(['sum', 'avg']),
+  },
+  annotations: listOf(isAnnotation),
+};
+
+// Keeps the saved fields that have the right shape. Missing ones are fine
+// (older versions didn't have them); malformed ones are listed in `invalid`.
+const cleanFields = <T>(saved: unknown, defaults: T, spec: Spec, path: string, invalid: string[]): T => {
+  if (saved === undefined) return defaults;
+  if (!isRecord(saved)) {
+    invalid.push(path);
+    return defaults;
+  }
+  const result: Record<string, unknown> = { ...(defaults as Record<string, unknown>) };
+  Object.entries(spec).forEach(([key, check]) => {
+    const field = path ? `${path}.${key}` : key;
+    if (typeof check !== 'function') {
+      result[key] = cleanFields(saved[key], result[key], check, field, invalid);
+    } else if (saved[key] !== undefined) {
+      if (check(saved[key])) result[key] = saved[key];
+      else invalid.push(field);
+    }
+  });
+  return result as T;
+};
+
+/**
+ * Checks saved state field by field against what the editor expects. Fields
+ * that are missing or malformed take their defaults; `invalid` names the
+ * malformed ones, e.g. "annotations" or "chartOptions.legend.position".
+ */
+export const validateEditorState = (saved: unknown): { state: EditorState; invalid: string[] } => {
+  const invalid: string[] = [];
+  const state = cleanFields(saved, defaultEditorState, editorStateSpec, '', invalid);
+  return { state, invalid: invalid.map(field => field || 'state') };
+};
+
+/** Fills in fields that state saved by an older version doesn't have yet, and replaces malformed ones. */
+export const restoreEditorState = (saved: Partial<EditorState>): EditorState => validateEditorState(saved).state;
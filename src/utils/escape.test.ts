@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, serializeForScript } from './escape';
+
+describe('escapeHtml', () => {
+  it('escapes every character that can open a tag or leave an attribute', () => {
+    expect(escapeHtml(`<img src=x onerror="alert('x')">&`)).toBe(
+      '&lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt;&amp;'
+    );
+  });
+
+  it('leaves plain text alone', () => {
+    expect(escapeHtml('Sales 2024 – Q1')).toBe('Sales 2024 – Q1');
+  });
+});
+
+describe('serializeForScript', () => {
+  it('keeps data from closing the script or opening a comment', () => {
+    const json = serializeForScript({ title: '</script><script>alert(1)</script>', note: '<!-- & -->' });
+    expect(json).not.toMatch(/[<>&]/);
+    expect(json).toContain('\\u003c/script\\u003e');
+  });
+
+  it('escapes line and paragraph separators', () => {
+    expect(serializeForScript('a\u2028b\u2029c')).toBe('"a\\u2028b\\u2029c"');
+  });
+
+  it('round-trips through JSON.parse', () => {
+    const value = { label: '</script>', values: [1, null, '&amp;'], nested: { quote: '"\'' } };
+    expect(JSON.parse(serializeForScript(value, 2))).toEqual(value);
+  });
+});
@@ -0,0 +1,29 @@
+const htmlEntities: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Escapes text for HTML element content and quoted attribute values. */
+export const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => htmlEntities[char]);
+
+/**
+ * JSON.stringify for embedding inside a <script> element. `<`, `>` and `&`
+ * become unicode escapes so data can't close the script or open a comment,
+ * and U+2028/U+2029 are escaped for older JavaScript parsers.
+ */
+export const serializeForScript = (value: unknown, indent?: number) =>
+  JSON.stringify(value, null, indent)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+/** Random per-document nonce that lets only our own <script> tags run under the CSP. */
+export const createNonce = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+};
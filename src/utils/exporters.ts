@@ -0,0 +1,195 @@
+import { ChartConfig } from '../types';
+import { chartRuntimeScript } from './chartRuntime';
+import { escapeHtml, serializeForScript } from './escape';
+import { dataIndent } from './htmlPage';
+import { buildChartJsConfig } from './pageRuntime';
+import { chartJsCdnUrl, chartJsIntegrity, dateAdapterScript } from './vendorScripts';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'json' | 'embed' | 'react';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+  // Pixel density for PNG and PDF: 2 matches most high-DPI screens
+  scale: number;
+}
+
+export const defaultImageSize: ImageSize = { width: 1200, height: 675, scale: 2 };
+
+// The same runtime the generated pages run, so every export format gets
+// identical scales, colors and legend settings from one ChartConfig. It fills
+// in dataset options in place, so it gets a copy.
+const toChartJsConfig = (config: ChartConfig) => buildChartJsConfig(structuredClone(config));
+
+const usesTimeAxis = (config: ChartConfig) => config.xAxis?.type === 'time';
+
+const loadChartJs = async (config: ChartConfig) => {
+  const chartJs = await import('chart.js/auto');
+  if (usesTimeAxis(config)) await import('chartjs-adapter-date-fns');
+  return chartJs;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Draws the chart off-screen at a fixed size and returns it on a canvas with
+ * the card background painted in, so transparent areas don't turn black in
+ * viewers that ignore alpha.
+ */
+const renderToCanvas = async (config: ChartConfig, size: ImageSize, background: string) => {
+  const { default: Chart } = await loadChartJs(config);
+  const chartJsConfig = toChartJsConfig(config);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const chart = new Chart(canvas, {
+    ...chartJsConfig,
+    options: { ...chartJsConfig.options, responsive: false, animation: false, devicePixelRatio: size.scale },
+  });
+
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not available in this browser.');
+  // Gradients aren't valid fill styles and are ignored, leaving the white default
+  ctx.fillStyle = '#ffffff';
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.drawImage(canvas, 0, 0);
+  chart.destroy();
+  return output;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG image.'))), 'image/png')
+  );
+
+export const exportPng = async (config: ChartConfig, size: ImageSize) =>
+  canvasToBlob(await renderToCanvas(config, size, config.theme.cardBackground));
+
+export const exportPdf = async (config: ChartConfig, size: ImageSize) => {
+  const { jsPDF } = await import('jspdf');
+  // Paper has no transparency, so embed themes get a white page
+  const background = config.theme.cardBackground === 'transparent' ? '#ffffff' : config.theme.cardBackground;
+  const canvas = await renderToCanvas(config, size, background);
+  const showTitle = config.theme.layout !== 'embed' && config.title.trim() !== '';
+  const top = showTitle ? 48 : 0;
+
+  const pdf = new jsPDF({
+    orientation: size.width >= size.height ? 'landscape' : 'portrait',
+    unit: 'pt',
+    format: [size.width, size.height + top],
+  });
+  if (showTitle) {
+    pdf.setFontSize(20);
+    pdf.text(config.title, size.width / 2, 32, { align: 'center' });
+  }
+  pdf.addImage(canvas, 'PNG', 0, top, size.width, size.height);
+  return pdf.output('blob');
+};
+
+export const exportSvg = async (config: ChartConfig, size: ImageSize) => {
+  const [{ default: Chart, BasicPlatform }, { default: C2S }] = await Promise.all([
+    loadChartJs(config),
+    import('canvas2svg'),
+  ]);
+  const ctx = new C2S(size.width, size.height);
+  // canvas2svg predates a few context methods Chart.js calls
+  Object.assign(ctx, {
+    getContext: () => ctx,
+    setLineDash: () => {},
+    resetTransform: () => {},
+    ellipse: (x: number, y: number, radius: number, _radiusY: number, _rotation: number, start: number, end: number) =>
+      ctx.arc(x, y, radius, start, end),
+  });
+
+  const chartJsConfig = toChartJsConfig(config);
+  const chart = new Chart(ctx, {
+    ...chartJsConfig,
+    platform: BasicPlatform,
+    options: { ...chartJsConfig.options, responsive: false, animation: false, devicePixelRatio: 1 },
+  });
+  // Serialize before destroy(), which clears the drawing
+  const svg = ctx.getSerializedSvg(true);
+  chart.destroy();
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
+
+/**
+ * Plain Chart.js configuration. Callbacks can't be serialized, so custom
+ * number formats and percentage labels fall back to Chart.js defaults here
+ * and in the React component. Reference lines, ranges, callouts and
+ * patterns are left out too; trendlines are ordinary datasets and stay.
+ */
+export const createChartJsConfigJson = (config: ChartConfig) => {
+  const chartJsConfig = toChartJsConfig({
+    ...config,
+    options: { ...config.options, patterns: false },
+    annotations: undefined,
+  });
+  delete chartJsConfig.plugins;
+  return JSON.stringify(chartJsConfig, null, dataIndent(config));
+};
+
+/** `<div>` + `<script>` fragment for pasting into an existing page or docs site. */
+export const createEmbedSnippet = (config: ChartConfig, options: { chartJsSource?: string; integrity: boolean }) => {
+  const id = `chartcraft-${Math.random().toString(36).slice(2, 10)}`;
+  const integrityAttributes = options.integrity ? ` integrity="${chartJsIntegrity}" crossorigin="anonymous"` : '';
+  const chartJsTag = options.chartJsSource
+    ? `<script>${options.chartJsSource}</script>`
+    : `<script src="${chartJsCdnUrl}"${integrityAttributes}></script>`;
+
+  return `<div style="position: relative; max-width: 900px;">
+  <canvas id="${id}" role="img" aria-label="${escapeHtml(config.title)}"></canvas>
+</div>
+${chartJsTag}
+${usesTimeAxis(config) ? `<script>${dateAdapterScript}</script>\n` : ''}<script>
+  (function() {${chartRuntimeScript}
+      renderChart(document.getElementById('${id}'), ${serializeForScript(config)});
+  })();
+</script>
+`;
+};
+
+const toComponentName = (title: string) => {
+  const words = title.match(/[A-Za-z0-9]+/g) || [];
+  const name = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[A-Z]/.test(name) ? `${name}Chart` : 'ChartCraftChart';
+};
+
+/** Ready-to-paste .tsx file that renders the chart with the `chart.js` package. */
+export const createReactComponent = (config: ChartConfig) => {
+  const name = toComponentName(config.title);
+  return {
+    fileName: `${name}.tsx`,
+    source: `import { useEffect, useRef } from 'react';
+import Chart from 'chart.js/auto';
+import type { ChartConfiguration } from 'chart.js/auto';
+${usesTimeAxis(config) ? "import 'chartjs-adapter-date-fns';\n" : ''}
+const config = ${createChartJsConfigJson(config)} as ChartConfiguration;
+
+export default function ${name}() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const chart = new Chart(canvasRef.current, config);
+    return () => chart.destroy();
+  }, []);
+
+  return <canvas ref={canvasRef} role="img" aria-label={${JSON.stringify(config.title)}} />;
+}
+`,
+  };
+};
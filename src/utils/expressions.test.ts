@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { addComputedColumns, compileExpression, filterRows, validateExpression } from './expressions';
+
+const rows = [
+  { region: 'EU', sales: 120, expenses: 20, units: 0 },
+  { region: 'US', sales: 80, expenses: null, units: 4 },
+];
+const columns = Object.keys(rows[0]);
+
+const run = (expression: string) => compileExpression(expression, columns)(rows);
+
+describe('compileExpression', () => {
+  it('follows arithmetic and logical precedence', () => {
+    expect(run('2 + 3 * 4')).toEqual([14, 14]);
+    expect(run('(2 + 3) * 4')).toEqual([20, 20]);
+    expect(run('-2 * 3 + 10 % 4')).toEqual([-4, -4]);
+    expect(run("region = 'EU' or sales > 100 and units > 0")).toEqual([true, false]);
+    expect(run('not sales > 100 or units = 4')).toEqual([false, true]);
+  });
+
+  it('turns division by zero and missing values into gaps', () => {
+    expect(run('sales / units')).toEqual([null, 20]);
+    expect(run('sales % units')).toEqual([null, 0]);
+    expect(run('sales - expenses')).toEqual([100, null]);
+    expect(run('coalesce(expenses, 0)')).toEqual([20, 0]);
+    expect(run('expenses = null')).toEqual([false, true]);
+    expect(run('expenses > 0')).toEqual([true, false]);
+  });
+
+  it('runs window functions over the whole column', () => {
+    expect(run('cumsum(sales)')).toEqual([120, 200]);
+    expect(run('pct(sales)')).toEqual([60, 40]);
+    expect(run('movavg(sales, 2)')).toEqual([120, 100]);
+  });
+});
+
+describe('validateExpression', () => {
+  it('accepts known columns and functions', () => {
+    expect(validateExpression('round(sales / 3, 1) + [expenses]', columns)).toBe('');
+  });
+
+  it('rejects unknown columns and functions', () => {
+    expect(validateExpression('profit * 2', columns)).toBe('Unknown column "profit" at position 1.');
+    expect(validateExpression('[unit price]', columns)).toBe('Unknown column "unit price" at position 1.');
+    expect(validateExpression('eval(sales)', columns)).toMatch(/^Unknown function "eval"/);
+    expect(validateExpression('alert(1)', columns)).toMatch(/^Unknown function "alert"/);
+  });
+
+  it('never resolves prototype properties or member access', () => {
+    expect(validateExpression('constructor', columns)).toBe('Unknown column "constructor" at position 1.');
+    expect(validateExpression('__proto__', columns)).toBe('Unknown column "__proto__" at position 1.');
+    expect(validateExpression('[__proto__]', columns)).toBe('Unknown column "__proto__" at position 1.');
+    expect(validateExpression('toString(sales)', columns)).toMatch(/^Unknown function "toString"/);
+    expect(validateExpression('constructor(sales)', columns)).toMatch(/^Unknown function "constructor"/);
+    expect(validateExpression('hasOwnProperty(sales)', columns)).toMatch(/^Unknown function "hasOwnProperty"/);
+    expect(validateExpression('sales.constructor', columns)).toBe('Unexpected "." at position 6.');
+    expect(validateExpression("region['constructor']", columns)).toBe('Unexpected "\'constructor\'" at position 7.');
+  });
+
+  it('limits length and nesting', () => {
+    expect(validateExpression('1 + '.repeat(300) + '1', columns)).toBe('Expressions are limited to 1000 characters.');
+    expect(validateExpression('('.repeat(50) + '1' + ')'.repeat(50), columns)).toBe('The expression is nested too deeply.');
+  });
+});
+
+describe('addComputedColumns and filterRows', () => {
+  it('lets later columns use earlier ones and stores booleans as 1/0', () => {
+    const computed = addComputedColumns(rows, [
+      { name: 'profit', expression: 'sales - coalesce(expenses, 0)' },
+      { name: 'big', expression: 'profit > 90' },
+    ]);
+    expect(computed.map(row => [row.profit, row.big])).toEqual([
+      [100, 1],
+      [80, 0],
+    ]);
+  });
+
+  it('names the failing column or filter', () => {
+    expect(() => addComputedColumns(rows, [{ name: 'x', expression: 'nope' }])).toThrow(
+      'Computed column "x": Unknown column "nope" at position 1.'
+    );
+    expect(() => filterRows(rows, 'sales >')).toThrow('Row filter: The expression ends too early.');
+    expect(filterRows(rows, "region != 'EU'")).toEqual([rows[1]]);
+  });
+});
@@ -0,0 +1,417 @@
+import { ComputedColumn, DataObject } from '../types';
+import { toNumber } from './columns';
+
+/*
+ * A small expression language for computed columns and row filters. It is
+ * parsed and interpreted here, never handed to eval/Function, and can only
+ * read the row's columns and call the functions listed below.
+ *
+ *   profit:        sales - expenses
+ *   running total: cumsum(sales)
+ *   filter:        region = 'EU' and sales > 100
+ */
+
+type Value = number | string | boolean | null;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+type Node =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Node }
+  | { kind: 'binary'; operator: BinaryOperator; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'column' | 'symbol' | 'end';
+  text: string;
+  position: number;
+}
+
+const MAX_LENGTH = 1000;
+const MAX_DEPTH = 40;
+
+const symbols = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '=', '<', '>', '!', '(', ')', ','];
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position });
+      position += number[0].length;
+    } else if (name) {
+      tokens.push({ type: 'name', text: name[0], position });
+      position += name[0].length;
+    } else if (rest[0] === "'" || rest[0] === '"') {
+      const end = text.indexOf(rest[0], position + 1);
+      if (end === -1) throw new Error(`Unclosed text starting at position ${position + 1}.`);
+      tokens.push({ type: 'string', text: text.slice(position + 1, end), position });
+      position = end + 1;
+    } else if (rest[0] === '[') {
+      // [Column name] for names with spaces or symbols
+      const end = text.indexOf(']', position);
+      if (end === -1) throw new Error(`Unclosed [ at position ${position + 1}.`);
+      tokens.push({ type: 'column', text: text.slice(position + 1, end), position });
+      position = end + 1;
+    } else {
+      const symbol = symbols.find(candidate => rest.startsWith(candidate));
+      if (!symbol) throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}.`);
+      tokens.push({ type: 'symbol', text: symbol, position });
+      position += symbol.length;
+    }
+  }
+  tokens.push({ type: 'end', text: '', position });
+  return tokens;
+};
+
+// Row functions work on one row's values; window functions need the whole column.
+const rowFunctions: Record<string, { args: [number, number]; apply: (...values: Value[]) => Value }> = {
+  abs: { args: [1, 1], apply: x => numeric(x, Math.abs) },
+  round: {
+    args: [1, 2],
+    apply: (x, digits) => {
+      const factor = 10 ** (asNumber(digits) ?? 0);
+      return numeric(x, value => Math.round(value * factor) / factor);
+    },
+  },
+  floor: { args: [1, 1], apply: x => numeric(x, Math.floor) },
+  ceil: { args: [1, 1], apply: x => numeric(x, Math.ceil) },
+  min: { args: [1, Infinity], apply: (...values) => extreme(values, Math.min) },
+  max: { args: [1, Infinity], apply: (...values) => extreme(values, Math.max) },
+  if: { args: [3, 3], apply: (condition, then, otherwise) => (isTruthy(condition) ? then : otherwise) },
+  coalesce: { args: [1, Infinity], apply: (...values) => values.find(value => value !== null && value !== '') ?? null },
+  contains: {
+    args: [2, 2],
+    apply: (text, part) => String(text ?? '').toLowerCase().includes(String(part ?? '').toLowerCase()),
+  },
+};
+
+const windowFunctions: Record<string, [number, number]> = {
+  // Running total down the rows
+  cumsum: [1, 1],
+  // Average of this row and the n - 1 before it
+  movavg: [2, 2],
+  // Share of the column total, in percent
+  pct: [1, 1],
+};
+
+const functionNames = [...Object.keys(rowFunctions), ...Object.keys(windowFunctions)];
+
+const comparisonOperators: Record<string, BinaryOperator> = {
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+};
+
+const parse = (text: string, columns: string[]): Node => {
+  if (text.length > MAX_LENGTH) throw new Error(`Expressions are limited to ${MAX_LENGTH} characters.`);
+  const tokens = tokenize(text);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isWord = (token: Token, word: string) => token.type === 'name' && token.text.toLowerCase() === word;
+  const isSymbol = (token: Token, ...options: string[]) => token.type === 'symbol' && options.includes(token.text);
+  const fail = (token: Token): never => {
+    throw new Error(
+      token.type === 'end' ? 'The expression ends too early.' : `Unexpected "${token.text}" at position ${token.position + 1}.`
+    );
+  };
+  const expect = (symbol: string) => {
+    if (!isSymbol(peek(), symbol)) fail(peek());
+    next();
+  };
+  const column = (name: string, token: Token): Node => {
+    if (!columns.includes(name)) throw new Error(`Unknown column "${name}" at position ${token.position + 1}.`);
+    return { kind: 'column', name };
+  };
+
+  const nested = (parseInner: () => Node) => {
+    if (++depth > MAX_DEPTH) throw new Error('The expression is nested too deeply.');
+    const node = parseInner();
+    depth--;
+    return node;
+  };
+
+  const parseCall = (name: string, token: Token): Node => {
+    const key = name.toLowerCase();
+    if (!functionNames.includes(key)) {
+      throw new Error(`Unknown function "${name}". Available: ${functionNames.join(', ')}.`);
+    }
+    expect('(');
+    const args: Node[] = [];
+    if (!isSymbol(peek(), ')')) {
+      args.push(parseOr());
+      while (isSymbol(peek(), ',')) {
+        next();
+        args.push(parseOr());
+      }
+    }
+    expect(')');
+    const [min, max] = rowFunctions[key]?.args || windowFunctions[key];
+    if (args.length < min || args.length > max) {
+      const count = min === max ? min : max === Infinity ? `${min} or more` : `${min} or ${max}`;
+      throw new Error(`${name}() at position ${token.position + 1} takes ${count} argument${max === 1 ? '' : 's'}.`);
+    }
+    if (key === 'movavg' && args[1].kind !== 'literal') {
+      throw new Error('movavg() needs a plain number of rows as its second argument, e.g. movavg(sales, 3).');
+    }
+    return { kind: 'call', name: key, args };
+  };
+
+  const parsePrimary = (): Node => {
+    const token = next();
+    if (token.type === 'number') return { kind: 'literal', value: Number(token.text) };
+    if (token.type === 'string') return { kind: 'literal', value: token.text };
+    if (token.type === 'column') return column(token.text, token);
+    if (isSymbol(token, '(')) {
+      const node = nested(parseOr);
+      expect(')');
+      return node;
+    }
+    if (token.type === 'name') {
+      const word = token.text.toLowerCase();
+      if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+      if (word === 'null') return { kind: 'literal', value: null };
+      if (isSymbol(peek(), '(')) return nested(() => parseCall(token.text, token));
+      return column(token.text, token);
+    }
+    return fail(token);
+  };
+
+  const parseUnary = (): Node => {
+    if (isSymbol(peek(), '-')) {
+      next();
+      return { kind: 'unary', operator: '-', operand: nested(parseUnary) };
+    }
+    return parsePrimary();
+  };
+
+  const parseBinary = (parseOperand: () => Node, operators: string[]) => (): Node => {
+    let node = parseOperand();
+    while (isSymbol(peek(), ...operators)) {
+      const operator = next().text as BinaryOperator;
+      node = { kind: 'binary', operator, left: node, right: parseOperand() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = parseBinary(parseUnary, ['*', '/', '%']);
+  const parseAdditive = parseBinary(parseMultiplicative, ['+', '-']);
+
+  const parseComparison = (): Node => {
+    const left = parseAdditive();
+    const token = peek();
+    if (token.type !== 'symbol' || !comparisonOperators[token.text]) return left;
+    next();
+    return { kind: 'binary', operator: comparisonOperators[token.text], left, right: parseAdditive() };
+  };
+
+  const parseNot = (): Node => {
+    if (isWord(peek(), 'not') || isSymbol(peek(), '!')) {
+      next();
+      return { kind: 'unary', operator: 'not', operand: nested(parseNot) };
+    }
+    return parseComparison();
+  };
+
+  const parseLogical = (parseOperand: () => Node, word: 'and' | 'or', symbol: string) => (): Node => {
+    let node = parseOperand();
+    while (isWord(peek(), word) || isSymbol(peek(), symbol)) {
+      next();
+      node = { kind: 'binary', operator: word, left: node, right: parseOperand() };
+    }
+    return node;
+  };
+
+  const parseAnd = parseLogical(parseNot, 'and', '&&');
+  const parseOr: () => Node = parseLogical(parseAnd, 'or', '||');
+
+  const root = parseOr();
+  if (peek().type !== 'end') fail(peek());
+  return root;
+};
+
+const asNumber = (value: Value) => (typeof value === 'boolean' ? Number(value) : toNumber(value));
+
+const isTruthy = (value: Value) =>
+  value === true || (typeof value === 'number' && value !== 0 && !isNaN(value)) || (typeof value === 'string' && value !== '');
+
+// Non-finite results (division by zero, overflow) become gaps
+const finite = (value: number): Value => (Number.isFinite(value) ? value : null);
+
+const numeric = (value: Value, apply: (value: number) => number): Value => {
+  const number = asNumber(value);
+  return number === null ? null : finite(apply(number));
+};
+
+const extreme = (values: Value[], pick: (...values: number[]) => number): Value => {
+  const numbers = values.map(asNumber).filter((value): value is number => value !== null);
+  return numbers.length ? pick(...numbers) : null;
+};
+
+const compare = (operator: BinaryOperator, left: Value, right: Value): Value => {
+  if (left === null || right === null) {
+    if (operator === '=') return left === right;
+    if (operator === '!=') return left !== right;
+    return false;
+  }
+  const a = asNumber(left);
+  const b = asNumber(right);
+  // Numbers compare as numbers, anything else as text
+  const order = a !== null && b !== null ? a - b : String(left).localeCompare(String(right));
+  switch (operator) {
+    case '=':
+      return order === 0;
+    case '!=':
+      return order !== 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+};
+
+const binary = (operator: BinaryOperator, left: Value, right: Value): Value => {
+  switch (operator) {
+    case 'and':
+      return isTruthy(left) && isTruthy(right);
+    case 'or':
+      return isTruthy(left) || isTruthy(right);
+    case '+':
+      // Text joins text, so labels like country + ' total' work
+      if (typeof left === 'string' && asNumber(left) === null) return left + String(right ?? '');
+      if (typeof right === 'string' && asNumber(right) === null) return String(left ?? '') + right;
+      break;
+    case '-':
+    case '*':
+    case '/':
+    case '%':
+      break;
+    default:
+      return compare(operator, left, right);
+  }
+  const a = asNumber(left);
+  const b = asNumber(right);
+  if (a === null || b === null) return null;
+  if (operator === '+') return finite(a + b);
+  if (operator === '-') return finite(a - b);
+  if (operator === '*') return finite(a * b);
+  return finite(operator === '/' ? a / b : a % b);
+};
+
+/** Trailing average over `size` rows; gaps are left out of each window. */
+export const movingAverage = (values: (number | null)[], size: number) => {
+  const window = Math.max(1, Math.floor(size));
+  return values.map((_, index) => {
+    const present = values.slice(Math.max(0, index - window + 1), index + 1).filter((value): value is number => value !== null);
+    return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+  });
+};
+
+const applyWindow = (name: string, values: Value[], size: number): Value[] => {
+  const numbers = values.map(asNumber);
+  if (name === 'cumsum') {
+    let total = 0;
+    return numbers.map(value => (value === null ? null : (total += value)));
+  }
+  if (name === 'pct') {
+    const total = numbers.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+    return numbers.map(value => (value === null || total === 0 ? null : (value / total) * 100));
+  }
+  return movingAverage(numbers, size);
+};
+
+// Evaluated a column at a time, which is what the window functions need anyway
+const evaluate = (node: Node, rows: DataObject[]): Value[] => {
+  switch (node.kind) {
+    case 'literal':
+      return rows.map(() => node.value);
+    case 'column':
+      return rows.map(row => row[node.name] ?? null);
+    case 'unary': {
+      const values = evaluate(node.operand, rows);
+      return node.operator === 'not' ? values.map(value => !isTruthy(value)) : values.map(value => numeric(value, x => -x));
+    }
+    case 'binary': {
+      const left = evaluate(node.left, rows);
+      const right = evaluate(node.right, rows);
+      return left.map((value, index) => binary(node.operator, value, right[index]));
+    }
+    case 'call': {
+      if (windowFunctions[node.name]) {
+        const size = node.args[1]?.kind === 'literal' ? asNumber(node.args[1].value) ?? 1 : 1;
+        return applyWindow(node.name, evaluate(node.args[0], rows), size);
+      }
+      const args = node.args.map(arg => evaluate(arg, rows));
+      return rows.map((_, index) => rowFunctions[node.name].apply(...args.map(values => values[index])));
+    }
+  }
+};
+
+/** Parses `text` against the given column names. Throws with the position of the first problem. */
+export const compileExpression = (text: string, columns: string[]) => {
+  const root = parse(text, columns);
+  return (rows: DataObject[]) => evaluate(root, rows);
+};
+
+/** Checks an expression without running it; returns the problem, or '' when it is valid. */
+export const validateExpression = (text: string, columns: string[]) => {
+  try {
+    parse(text, columns);
+    return '';
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid expression.';
+  }
+};
+
+/**
+ * Adds each computed column in order, so later expressions can use earlier
+ * ones. Blank definitions are skipped. true/false results are stored as 1/0.
+ */
+export const addComputedColumns = (data: DataObject[], computed: ComputedColumn[]) =>
+  computed.reduce((rows, { name, expression }) => {
+    const key = name.trim();
+    if (!key || !expression.trim() || rows.length === 0) return rows;
+    let values: Value[];
+    try {
+      values = compileExpression(expression, Object.keys(rows[0]))(rows);
+    } catch (err) {
+      throw new Error(`Computed column "${key}": ${err instanceof Error ? err.message : 'invalid expression.'}`);
+    }
+    return rows.map((row, index) => {
+      const value = values[index];
+      return { ...row, [key]: typeof value === 'boolean' ? Number(value) : value };
+    });
+  }, data);
+
+/** Keeps the rows where `filter` is true; an empty filter keeps every row. */
+export const filterRows = (data: DataObject[], filter: string) => {
+  if (!filter.trim() || data.length === 0) return data;
+  let keep: Value[];
+  try {
+    keep = compileExpression(filter, Object.keys(data[0]))(data);
+  } catch (err) {
+    throw new Error(`Row filter: ${err instanceof Error ? err.message : 'invalid expression.'}`);
+  }
+  return data.filter((_, index) => isTruthy(keep[index]));
+};
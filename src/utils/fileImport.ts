@@ -0,0 +1,71 @@
+import type { WorkBook } from 'xlsx';
+import { Delimiter } from './csv';
+
+export type FileKind = 'csv' | 'tsv' | 'json' | 'xlsx';
+
+export const acceptedFileTypes = '.csv,.tsv,.tab,.txt,.json,.jsonl,.ndjson,.xlsx,.xls,.ods';
+
+const extensionKinds: Record<string, FileKind> = {
+  csv: 'csv',
+  txt: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  json: 'json',
+  jsonl: 'json',
+  ndjson: 'json',
+  xlsx: 'xlsx',
+  xls: 'xlsx',
+  ods: 'xlsx',
+};
+
+/**
+ * Picks a reader from the file extension, falling back to the first bytes:
+ * ZIP (xlsx/ods) and OLE (xls) signatures, a leading `{`/`[` for JSON, a tab
+ * in the first line for TSV.
+ */
+export const detectFileKind = (fileName: string, head: Uint8Array): FileKind => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  if (extensionKinds[extension]) return extensionKinds[extension];
+
+  if (head[0] === 0x50 && head[1] === 0x4b) return 'xlsx';
+  if (head[0] === 0xd0 && head[1] === 0xcf) return 'xlsx';
+
+  const text = new TextDecoder().decode(head).replace(/^\uFEFF/, '').trimStart();
+  if (/^[[{]/.test(text)) return 'json';
+  return text.split(/\r?\n/)[0].includes('\t') ? 'tsv' : 'csv';
+};
+
+export const delimiterForKind = (kind: FileKind): Delimiter | 'auto' => (kind === 'tsv' ? '\t' : 'auto');
+
+export const readTextFile = async (file: File) => (await file.text()).replace(/^\uFEFF/, '');
+
+// SheetJS is large, so it is only loaded once a workbook is actually dropped.
+export const readWorkbook = async (file: File): Promise<WorkBook> => {
+  const XLSX = await import('xlsx');
+  return XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+};
+
+/** The sheet's used range, e.g. "A1:D20". */
+export const getSheetRange = (workbook: WorkBook, sheetName: string) => workbook.Sheets[sheetName]?.['!ref'] || '';
+
+/**
+ * Converts one sheet (optionally limited to an A1-style range) into CSV text
+ * for the regular parsing pipeline. Dates are written as ISO so the time axis
+ * detection picks them up.
+ */
+export const sheetToCsv = async (workbook: WorkBook, sheetName: string, range = ''): Promise<string> => {
+  const XLSX = await import('xlsx');
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in the workbook.`);
+  }
+
+  const trimmed = range.trim().toUpperCase();
+  if (trimmed && !/^[A-Z]+\d+(:[A-Z]+\d+)?$/.test(trimmed)) {
+    throw new Error(`Invalid cell range "${range}". Use A1 notation such as A1:D20.`);
+  }
+
+  // Limiting "!ref" restricts which cells SheetJS writes out
+  const target = trimmed ? { ...sheet, '!ref': trimmed } : sheet;
+  return XLSX.utils.sheet_to_csv(target, { rawNumbers: true, dateNF: 'yyyy-mm-dd', blankrows: false });
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Dashboard } from '../types';
+import { createDataTable } from './accessibility';
+import { createChartConfigFromState } from './chartConfig';
+import { defaultDashboard } from './dashboard';
+import { restoreEditorState } from './editorState';
+import { generateDashboardHtml, generateHtmlSnippet } from './htmlPage';
+
+const closeScript = '</script><script>alert(1)</script>';
+const img = '<img src=x onerror=alert(1)>';
+const header = '"><svg onload=alert(1)>';
+
+const csvCell = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+// Hostile text in the title, the labels and a column name
+const hostileChart = (chartType = 'bar') =>
+  createChartConfigFromState(
+    restoreEditorState({
+      chartType,
+      title: closeScript,
+      input: [`name,${csvCell(header)}`, `${csvCell(img)},10`, `${csvCell(closeScript)},20`, 'plain,30'].join('\n'),
+    })
+  );
+
+const countOf = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+// Every script element we open is one of ours and is closed exactly once
+const expectSafeHtml = (html: string) => {
+  expect(html).not.toContain(img);
+  expect(html).not.toContain(header);
+  expect(html).not.toContain(closeScript);
+  expect(html).not.toMatch(/<img\b/i);
+  expect(html).not.toMatch(/<svg\b/i);
+  expect(countOf(html, /<\/script/gi)).toBe(countOf(html, /<script\b/gi));
+  const scripts = html.match(/<script\b[^>]*>/gi) || [];
+  scripts.forEach(tag => expect(tag).toMatch(/\bnonce="[^"]+"/));
+};
+
+describe('generateHtmlSnippet', () => {
+  it('keeps hostile titles, labels and column names out of the markup', () => {
+    const html = generateHtmlSnippet(hostileChart());
+    expectSafeHtml(html);
+    expect(html).toContain(`<title>${'&lt;/script&gt;&lt;script&gt;alert(1)&lt;/script&gt;'}</title>`);
+  });
+
+  it('escapes the embedded layout and point charts too', () => {
+    const config = hostileChart('line');
+    expectSafeHtml(generateHtmlSnippet({ ...config, theme: { ...config.theme, layout: 'embed' } }));
+    expectSafeHtml(generateHtmlSnippet(hostileChart('pie'), { integrity: true }));
+  });
+});
+
+describe('chart accessibility', () => {
+  it('announces the focusable canvas as an interactive chart, not an image', () => {
+    const html = generateHtmlSnippet(hostileChart());
+    const canvas = html.match(/<canvas\b[^>]*>/)?.[0] || '';
+    expect(canvas).toContain('tabindex="0"');
+    expect(canvas).toContain('role="application"');
+    expect(canvas).toContain('aria-roledescription="chart"');
+    expect(canvas).toContain('aria-describedby="chart-summary chart-keys"');
+  });
+
+  it('gives the embedded layout the same data table toggle as the full page', () => {
+    const config = hostileChart();
+    const html = generateHtmlSnippet({ ...config, theme: { ...config.theme, layout: 'embed' } });
+    expect(html).toContain('<button id="table-toggle" class="download-btn" aria-expanded="false" aria-controls="data-table">');
+    expect(html).toContain('<div id="data-table" class="data-table" hidden>');
+    expect(html).not.toContain('id="download"');
+  });
+});
+
+describe('createDataTable', () => {
+  it('escapes the caption, headers and row labels', () => {
+    const table = createDataTable(hostileChart());
+    expectSafeHtml(table);
+    expect(table).toContain('<th scope="col">&quot;&gt;&lt;svg onload=alert(1)&gt;</th>');
+    expect(table).toContain('<th scope="row">&lt;img src=x onerror=alert(1)&gt;</th>');
+  });
+
+  it('lists bubble sizes as in the data', () => {
+    const table = createDataTable(
+      createChartConfigFromState(restoreEditorState({ chartType: 'bubble', input: 'x,y,population\n1,2,1500\n3,4,90000' }))
+    );
+    expect(table).toContain('<th scope="col">Size</th>');
+    expect(table).toContain('<td>1,500</td>');
+    expect(table).toContain('<td>90,000</td>');
+  });
+});
+
+describe('generateDashboardHtml', () => {
+  it('escapes chart and text block content', () => {
+    const dashboard: Dashboard = {
+      ...defaultDashboard,
+      title: closeScript,
+      items: [
+        { id: 'chart', kind: 'chart', projectId: 'p', wide: false },
+        { id: 'text', kind: 'text', markdown: `# ${img}\n\n${closeScript} [link](javascript:alert(1))`, wide: true },
+      ],
+      filters: { category: true, dateRange: false },
+    };
+    const html = generateDashboardHtml(dashboard, { chart: hostileChart() });
+    expectSafeHtml(html);
+    expect(html).not.toContain('href="javascript:');
+  });
+});
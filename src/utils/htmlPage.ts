@@ -0,0 +1,406 @@
+import { ChartConfig, Dashboard, PageTheme } from '../types';
+import { createDataTable, describeChart } from './accessibility';
+import { chartRuntimeScript } from './chartRuntime';
+import { createNonce, escapeHtml, serializeForScript } from './escape';
+import { renderMarkdown } from './markdown';
+import { defaultTheme, sanitizeCssValue } from './themes';
+import { chartJsCdnUrl, chartJsIntegrity, dateAdapterScript } from './vendorScripts';
+
+export interface HtmlPageOptions {
+  // Inlined Chart.js bundle for offline pages; the CDN is used when absent.
+  chartJsSource?: string;
+  // Adds a Subresource Integrity hash to the CDN script tag.
+  integrity?: boolean;
+}
+
+// Past this many data points the embedded JSON is written without indentation;
+// pretty-printing 200k points only adds megabytes nobody reads.
+const COMPACT_DATA_POINTS = 1000;
+
+/** Indentation for embedding these charts' data: 2 while it stays readable, none beyond. */
+export const dataIndent = (...configs: ChartConfig[]) => {
+  const points = configs.reduce(
+    (total, config) => total + config.datasets.reduce((sum, dataset) => sum + dataset.data.length, 0),
+    0
+  );
+  return points > COMPACT_DATA_POINTS ? undefined : 2;
+};
+
+const createContentSecurityPolicy = (nonce: string) =>
+  [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    "style-src 'unsafe-inline'",
+    'img-src data: blob:',
+    "base-uri 'none'",
+    "form-action 'none'",
+  ].join('; ');
+
+const createChartJsTag = (nonce: string, { chartJsSource, integrity = false }: HtmlPageOptions) => {
+  const integrityAttributes = integrity ? ` integrity="${chartJsIntegrity}" crossorigin="anonymous"` : '';
+  return chartJsSource
+    ? `<script nonce="${nonce}">${chartJsSource}</script>`
+    : `<script nonce="${nonce}" src="${chartJsCdnUrl}"${integrityAttributes}></script>`;
+};
+
+// Hides text visually while keeping it for screen readers
+const SR_ONLY_CSS =
+  '.sr-only { position: absolute; width: 1px; height: 1px; padding: 0; margin: -1px; overflow: hidden; ' +
+  'clip: rect(0, 0, 0, 0); white-space: nowrap; border: 0; }';
+
+const KEYBOARD_HINT = 'Use the arrow keys to move between data points.';
+
+// The canvas takes focus and handles the arrow keys itself, which an image
+// can't; screen readers announce it as a chart and read the summary on focus
+const CHART_ROLE = 'role="application" aria-roledescription="chart"';
+
+// Theme values end up inside <style>, so anything that isn't a plain CSS value falls back
+const themeCss = (theme: PageTheme) => (field: keyof PageTheme) =>
+  sanitizeCssValue(String(theme[field]), String(defaultTheme[field]));
+
+/** Complete standalone HTML page that renders `config`. */
+export const generateHtmlSnippet = (config: ChartConfig, options: HtmlPageOptions = {}): string => {
+  // Titles, labels and column names are user data: escape them for the
+  // context they land in, and only let our own nonce-tagged scripts run.
+  const dataString = serializeForScript(config, dataIndent(config));
+  const title = escapeHtml(config.title);
+  const nonce = createNonce();
+  const chartJsTag = createChartJsTag(nonce, options);
+  const embed = config.theme.layout === 'embed';
+  const css = themeCss(config.theme);
+  const contentSecurityPolicy = createContentSecurityPolicy(nonce);
+  const label = escapeHtml(config.title || 'Chart');
+  const summary = escapeHtml(describeChart(config));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy}">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title}</title>
+    <style>
+      body { 
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        margin: 0; 
+        padding: ${embed ? '0' : '20px'}; 
+        background: ${css('pageBackground')}; 
+      }
+      .container { 
+        max-width: ${embed ? 'none' : '900px'}; 
+        margin: 0 auto; 
+        background: ${css('cardBackground')}; 
+        border-radius: ${embed ? '0' : '12px'}; 
+        box-shadow: ${embed ? 'none' : '0 4px 6px -1px rgba(0,0,0,0.1)'}; 
+        overflow: hidden;
+      }
+      .header {
+        padding: 24px;
+        background: ${css('headerBackground')};
+        color: ${css('headerText')};
+        text-align: center;
+      }
+      .header h1 { margin: 0; font-size: 24px; font-weight: 600; }
+      .chart-container { padding: ${embed ? '0' : '24px'}; }
+      .download-btn {
+        display: inline-block;
+        margin-top: 16px;
+        padding: 8px 16px;
+        background: ${css('accentColor')};
+        color: white;
+        text-decoration: none;
+        border-radius: 6px;
+        font-size: 14px;
+        transition: filter 0.2s;
+        cursor: pointer;
+        border: none;
+      }
+      .download-btn:hover { filter: brightness(0.9); }
+      #chart { max-width: 100%; height: auto; }
+      #chart:focus-visible { outline: 3px solid ${css('textColor')}; outline-offset: 4px; }
+      .chart-summary { margin: 16px 0 0; font-size: 14px; line-height: 1.5; color: ${css('textColor')}; }
+      .data-table { margin-top: 16px; overflow-x: auto; color: ${css('textColor')}; }
+      .data-table table { width: 100%; border-collapse: collapse; font-size: 14px; }
+      .data-table caption { margin-bottom: 8px; font-weight: 600; text-align: left; }
+      .data-table th, .data-table td { padding: 6px 10px; border-bottom: 1px solid ${css('gridColor')}; text-align: right; }
+      .data-table thead th:first-child, .data-table tbody th { text-align: left; }
+      ${SR_ONLY_CSS}
+    </style>
+  </head>
+  <body>
+    <div class="container">
+${embed ? '' : `      <div class="header">
+        <h1>${title}</h1>
+      </div>
+`}      <div class="chart-container">
+        <canvas id="chart" ${CHART_ROLE} aria-label="${label}" aria-describedby="chart-summary chart-keys" tabindex="0"></canvas>
+        <p id="chart-summary" class="${embed ? 'sr-only' : 'chart-summary'}">${summary}</p>
+        <p id="chart-keys" class="sr-only">${KEYBOARD_HINT}</p>
+        <p id="chart-status" class="sr-only" aria-live="polite"></p>
+        <div style="text-align: center;">
+${embed ? '' : `          <button id="download" class="download-btn">Download PNG</button>
+`}          <button id="table-toggle" class="download-btn" aria-expanded="false" aria-controls="data-table">Show data table</button>
+        </div>
+        <div id="data-table" class="data-table" hidden>
+${createDataTable(config)}
+        </div>
+      </div>
+    </div>
+
+    ${chartJsTag}
+${config.xAxis?.type === 'time' ? `    <script nonce="${nonce}">${dateAdapterScript}</script>\n` : ''}
+    <script nonce="${nonce}">${chartRuntimeScript}
+      // Wait for Chart.js to load
+      document.addEventListener('DOMContentLoaded', function() {
+        // Chart configuration
+        const config = ${dataString};
+        
+        // Initialize chart
+        const ctx = document.getElementById('chart');
+        if (!ctx) {
+          console.error('Chart canvas not found');
+          return;
+        }
+
+        const chart = renderChart(ctx, config);
+        enableKeyboardNavigation(chart, ctx, document.getElementById('chart-status'));
+
+        // The data table starts hidden; the button's state tells screen readers whether it's open
+        const tableToggle = document.getElementById('table-toggle');
+        const dataTable = document.getElementById('data-table');
+        if (tableToggle && dataTable) {
+          tableToggle.addEventListener('click', function() {
+            const open = dataTable.hidden;
+            dataTable.hidden = !open;
+            tableToggle.setAttribute('aria-expanded', String(open));
+            tableToggle.textContent = open ? 'Hide data table' : 'Show data table';
+          });
+        }
+
+        // Download functionality
+        const downloadBtn = document.getElementById('download');
+        if (downloadBtn) {
+          downloadBtn.addEventListener('click', function(e) {
+            e.preventDefault();
+            try {
+              const link = document.createElement('a');
+              link.download = 'chart.png';
+              link.href = chart.toBase64Image('image/png', 1.0);
+              document.body.appendChild(link);
+              link.click();
+              document.body.removeChild(link);
+            } catch (error) {
+              console.error('Download failed:', error);
+              alert('Download failed. Please try again.');
+            }
+          });
+        }
+      });
+    </script>
+  </body>
+</html>`;
+};
+
+// Category filter choices: the labels of every chart that has them, in first-seen order.
+const dashboardCategories = (configs: ChartConfig[]) =>
+  Array.from(new Set(configs.filter(config => config.xAxis?.type !== 'time').flatMap(config => config.labels)));
+
+/**
+ * One page with every dashboard block in a grid and the dashboard's shared
+ * filters. `charts` holds the built chart for each chart item, by item id;
+ * chart items without one are left out.
+ */
+export const generateDashboardHtml = (
+  dashboard: Dashboard,
+  charts: Record<string, ChartConfig>,
+  options: HtmlPageOptions = {}
+): string => {
+  const nonce = createNonce();
+  const title = escapeHtml(dashboard.title);
+  const css = themeCss(dashboard.theme);
+  const columns = Math.min(Math.max(Math.round(dashboard.columns), 1), 3);
+
+  const blocks = dashboard.items.filter(item => item.kind === 'text' || charts[item.id]);
+  const chartItems = blocks.flatMap((item, index) =>
+    item.kind === 'chart' ? [{ id: `chart-${index}`, config: charts[item.id] }] : []
+  );
+  const configs = chartItems.map(item => item.config);
+  const hasTimeAxis = configs.some(config => config.xAxis?.type === 'time');
+  const categories = dashboard.filters.category ? dashboardCategories(configs) : [];
+  const dateRange = dashboard.filters.dateRange && hasTimeAxis;
+
+  const blockHtml = blocks
+    .map((item, index) => {
+      const className = `block${item.wide ? ' wide' : ''}`;
+      if (item.kind === 'text') {
+        return `      <section class="${className} text">\n${renderMarkdown(item.markdown)}\n      </section>`;
+      }
+      const config = charts[item.id];
+      const heading = config.title ? `\n        <h2>${escapeHtml(config.title)}</h2>` : '';
+      const label = escapeHtml(config.title || 'Chart');
+      const canvas = `<canvas id="chart-${index}" ${CHART_ROLE} aria-label="${label}" aria-describedby="chart-${index}-summary chart-keys" tabindex="0"></canvas>`;
+      const summary = `<p id="chart-${index}-summary" class="sr-only">${escapeHtml(describeChart(config))}</p>`;
+      return `      <section class="${className}">${heading}\n        ${canvas}\n        ${summary}\n      </section>`;
+    })
+    .join('\n');
+
+  const filterHtml = [
+    categories.length
+      ? `      <label>Category
+        <select id="category">
+          <option value="">All</option>
+${categories.map(category => `          <option value="${escapeHtml(category)}">${escapeHtml(category)}</option>`).join('\n')}
+        </select>
+      </label>`
+      : '',
+    dateRange
+      ? `      <label>From <input type="date" id="from"></label>
+      <label>To <input type="date" id="to"></label>`
+      : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta http-equiv="Content-Security-Policy" content="${createContentSecurityPolicy(nonce)}">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title}</title>
+    <style>
+      body {
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        margin: 0;
+        padding: 20px;
+        background: ${css('pageBackground')};
+        color: ${css('textColor')};
+      }
+      .header {
+        max-width: 1400px;
+        margin: 0 auto 20px;
+        padding: 24px;
+        border-radius: 12px;
+        background: ${css('headerBackground')};
+        color: ${css('headerText')};
+        text-align: center;
+      }
+      .header h1 { margin: 0; font-size: 24px; font-weight: 600; }
+      .filters {
+        max-width: 1400px;
+        margin: 0 auto 20px;
+        display: flex;
+        flex-wrap: wrap;
+        gap: 16px;
+        font-size: 14px;
+      }
+      .filters select, .filters input { margin-left: 6px; padding: 4px 8px; border-radius: 6px; border: 1px solid ${css('gridColor')}; }
+      .grid {
+        max-width: 1400px;
+        margin: 0 auto;
+        display: grid;
+        grid-template-columns: repeat(${columns}, minmax(0, 1fr));
+        gap: 20px;
+      }
+      .block {
+        background: ${css('cardBackground')};
+        border-radius: 12px;
+        box-shadow: 0 4px 6px -1px rgba(0,0,0,0.1);
+        padding: 20px;
+      }
+      .block.wide { grid-column: span ${Math.min(2, columns)}; }
+      .block h2 { margin: 0 0 12px; font-size: 16px; font-weight: 600; }
+      .block.text { line-height: 1.5; }
+      .block.text > :first-child { margin-top: 0; }
+      .block.text a { color: ${css('accentColor')}; }
+      canvas { max-width: 100%; height: auto; }
+      canvas:focus-visible { outline: 3px solid ${css('textColor')}; outline-offset: 4px; }
+      ${SR_ONLY_CSS}
+      @media (max-width: 720px) {
+        .grid { grid-template-columns: minmax(0, 1fr); }
+        .block.wide { grid-column: auto; }
+      }
+    </style>
+  </head>
+  <body>
+    <header class="header">
+      <h1>${title}</h1>
+    </header>
+${filterHtml ? `    <div class="filters">\n${filterHtml}\n    </div>\n` : ''}    <main class="grid">
+${blockHtml}
+    </main>
+    <p id="chart-keys" class="sr-only">${KEYBOARD_HINT}</p>
+    <p id="chart-status" class="sr-only" aria-live="polite"></p>
+
+    ${createChartJsTag(nonce, options)}
+${hasTimeAxis ? `    <script nonce="${nonce}">${dateAdapterScript}</script>\n` : ''}
+    <script nonce="${nonce}">${chartRuntimeScript}
+      document.addEventListener('DOMContentLoaded', function() {
+        const charts = ${serializeForScript(chartItems, dataIndent(...configs))};
+        const categorySelect = document.getElementById('category');
+        const fromInput = document.getElementById('from');
+        const toInput = document.getElementById('to');
+
+        function copy(value) {
+          return JSON.parse(JSON.stringify(value));
+        }
+
+        const status = document.getElementById('chart-status');
+        const rendered = charts.map(function(item) {
+          const canvas = document.getElementById(item.id);
+          const chart = renderChart(canvas, copy(item.config));
+          enableKeyboardNavigation(chart, canvas, status);
+          return { config: item.config, chart: chart };
+        });
+
+        // Local midnight of the picked day (plus days), matching how dates in the data are read
+        function dayStart(input, days) {
+          if (!input || !input.value) return null;
+          const parts = input.value.split('-');
+          return new Date(Number(parts[0]), Number(parts[1]) - 1, Number(parts[2]) + days).getTime();
+        }
+
+        // Time charts follow the date range; charts that have the picked category show only it
+        function filtered(config) {
+          const next = copy(config);
+          if (config.xAxis && config.xAxis.type === 'time') {
+            const from = dayStart(fromInput, 0);
+            const until = dayStart(toInput, 1);
+            next.datasets.forEach(function(dataset) {
+              dataset.data = dataset.data.filter(function(point) {
+                return (from === null || point.x >= from) && (until === null || point.x < until);
+              });
+            });
+            return next;
+          }
+          const category = categorySelect ? categorySelect.value : '';
+          if (!category || config.labels.indexOf(category) === -1) return next;
+          const keep = [];
+          config.labels.forEach(function(label, index) {
+            if (label === category) keep.push(index);
+          });
+          next.labels = keep.map(function(index) { return config.labels[index]; });
+          next.datasets.forEach(function(dataset) {
+            ['data', 'backgroundColor', 'borderColor'].forEach(function(key) {
+              const values = dataset[key];
+              if (Array.isArray(values)) dataset[key] = keep.map(function(index) { return values[index]; });
+            });
+          });
+          return next;
+        }
+
+        function applyFilters() {
+          rendered.forEach(function(item) {
+            item.chart.data = buildChartJsConfig(filtered(item.config)).data;
+            item.chart.update();
+          });
+        }
+
+        [categorySelect, fromInput, toInput].forEach(function(control) {
+          if (control) control.addEventListener('change', applyFilters);
+        });
+      });
+    </script>
+  </body>
+</html>`;
+};
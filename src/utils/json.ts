@@ -0,0 +1,181 @@
+import { DataObject, ParsedData } from '../types';
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+type JsonObject = { [key: string]: JsonValue };
+
+export interface JsonRecords {
+  type: Extract<ParsedData['type'], 'json' | 'ndjson' | 'json-columns'>;
+  data: DataObject[];
+}
+
+const isObject = (value: JsonValue | undefined): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRecordArray = (value: JsonValue | undefined): value is JsonObject[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isObject);
+
+/**
+ * Splits a selector such as `$.data.items`, `data.items[0].rows` or
+ * `$['odd key'].rows` into property names and array indexes.
+ */
+const parsePath = (path: string): (string | number)[] => {
+  const segments: (string | number)[] = [];
+  const pattern = /\.?([^.[\]]+)|\[(\d+)\]|\[(['"])(.*?)\3\]/g;
+  const text = path.trim().replace(/^\$/, '');
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index !== consumed) break;
+    consumed = pattern.lastIndex;
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[4]);
+  }
+
+  if (consumed !== text.length) {
+    throw new Error(`Invalid JSON path "${path}". Use dot paths like data.items or $.data.items[0].rows.`);
+  }
+  return segments;
+};
+
+const selectPath = (root: JsonValue, path: string): JsonValue | undefined => {
+  let current: JsonValue | undefined = root;
+  for (const segment of parsePath(path)) {
+    if (typeof segment === 'number') {
+      current = Array.isArray(current) ? current[segment] : undefined;
+    } else {
+      current = isObject(current) ? current[segment] : undefined;
+    }
+    if (current === undefined) return undefined;
+  }
+  return current;
+};
+
+/** Finds the first (shallowest) array of objects inside a response envelope. */
+const findRecordArray = (root: JsonValue): JsonObject[] | null => {
+  const queue: JsonValue[] = [root];
+  while (queue.length > 0) {
+    const value = queue.shift()!;
+    if (isRecordArray(value)) return value;
+    if (isObject(value)) queue.push(...Object.values(value));
+  }
+  return null;
+};
+
+/**
+ * `{"month": [...], "sales": [...]}`: every value an array of the same length.
+ * Arrays of objects are records (`{"data": [{...}]}`), not columns.
+ */
+const isColumnOriented = (value: JsonValue): value is { [key: string]: JsonValue[] } => {
+  if (!isObject(value)) return false;
+  const columns = Object.values(value);
+  if (columns.length === 0 || !columns.every(Array.isArray)) return false;
+  const length = (columns[0] as JsonValue[]).length;
+  return (
+    length > 0 &&
+    columns.every(column => (column as JsonValue[]).length === length && !(column as JsonValue[]).some(isObject))
+  );
+};
+
+const toCell = (value: JsonValue): string | number | null => {
+  if (value === null || typeof value === 'number' || typeof value === 'string') return value;
+  return String(value);
+};
+
+/** Flattens nested objects and arrays into dotted column names (`stats.sales`, `tags.0`). */
+const flattenRecord = (value: JsonValue, prefix = '', out: DataObject = {}): DataObject => {
+  if (isObject(value) || Array.isArray(value)) {
+    const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+    if (entries.length === 0 && prefix) out[prefix] = null;
+    entries.forEach(([key, item]) => flattenRecord(item, prefix ? `${prefix}.${key}` : key, out));
+  } else {
+    out[prefix] = toCell(value);
+  }
+  return out;
+};
+
+/** Gives every row the same columns, in first-seen order, so later steps can rely on data[0]. */
+const normalizeColumns = (rows: DataObject[]): DataObject[] => {
+  const keys: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        keys.push(key);
+      }
+    });
+  });
+  return rows.map(row => {
+    const obj: DataObject = {};
+    keys.forEach(key => {
+      obj[key] = key in row ? row[key] : null;
+    });
+    return obj;
+  });
+};
+
+const fromColumns = (columns: { [key: string]: JsonValue[] }): DataObject[] => {
+  const keys = Object.keys(columns);
+  return columns[keys[0]].map((_, index) => {
+    const obj: DataObject = {};
+    keys.forEach(key => {
+      flattenRecord(columns[key][index], key, obj);
+    });
+    return obj;
+  });
+};
+
+const parseJsonLines = (text: string): JsonValue[] | null => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return null;
+  try {
+    return lines.map(line => JSON.parse(line));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads JSON, JSON Lines or column-oriented JSON. Returns null when the text
+ * isn't JSON at all so the caller can try CSV instead.
+ */
+export const parseJSON = (text: string, path = ''): JsonRecords | null => {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) return null;
+
+  let root: JsonValue;
+  let type: JsonRecords['type'] = 'json';
+  try {
+    root = JSON.parse(trimmed);
+  } catch {
+    const lines = parseJsonLines(trimmed);
+    if (!lines) return null;
+    root = lines;
+    type = 'ndjson';
+  }
+
+  let selected: JsonValue | undefined = root;
+  if (path.trim()) {
+    selected = selectPath(root, path);
+    if (selected === undefined) {
+      throw new Error(`JSON path "${path}" did not match anything.`);
+    }
+  }
+
+  if (isColumnOriented(selected)) {
+    return { type: 'json-columns', data: normalizeColumns(fromColumns(selected)) };
+  }
+
+  const records = isRecordArray(selected) ? selected : path.trim() ? null : findRecordArray(selected);
+  if (!records) {
+    throw new Error(
+      path.trim()
+        ? `JSON path "${path}" must point to an array of objects or an object of column arrays.`
+        : 'No array of records found in the JSON. Set a JSON path such as data.items.'
+    );
+  }
+
+  return { type, data: normalizeColumns(records.map(record => flattenRecord(record))) };
+};
@@ -0,0 +1,57 @@
+import { escapeHtml } from './escape';
+
+// Only links that can't run script: no javascript: or data: URLs.
+const safeUrlPattern = /^(https?:\/\/|mailto:)/i;
+
+// Text is escaped before any markup is added, so user HTML never gets through.
+const renderInline = (text: string) =>
+  escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) =>
+      safeUrlPattern.test(url) ? `<a href="${url}" target="_blank" rel="noopener noreferrer">${label}</a>` : match
+    );
+
+/**
+ * Renders the small Markdown subset dashboard text blocks need: headings,
+ * paragraphs, bullet and numbered lists, bold, italic, code and links.
+ */
+export const renderMarkdown = (markdown: string) => {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) html.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+    if (list) html.push(`<${list.tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+    paragraph = [];
+    list = null;
+  };
+
+  markdown.split(/\r?\n/).forEach(line => {
+    const text = line.trim();
+    const heading = /^(#{1,3})\s+(.*)$/.exec(text);
+    const bullet = /^[-*]\s+(.*)$/.exec(text);
+    const numbered = /^\d+[.)]\s+(.*)$/.exec(text);
+
+    if (!text) {
+      flush();
+    } else if (heading) {
+      flush();
+      // The page title is the h1, so block headings start at h2
+      const level = heading[1].length + 1;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (paragraph.length || list?.tag !== tag) flush();
+      list = list || { tag, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else {
+      if (list) flush();
+      paragraph.push(text);
+    }
+  });
+  flush();
+  return html.join('\n');
+};
@@ -0,0 +1,13 @@
+import type { Chart, ChartConfiguration } from 'chart.js';
+import { ChartConfig } from '../types';
+
+// Types for pageRuntime.js, which stays plain JavaScript so it can be embedded as is.
+
+/** Chart.js configuration for a ChartConfig. Fills in dataset options in place. */
+export function buildChartJsConfig(config: ChartConfig): ChartConfiguration;
+
+/** Draws the chart with the page's global `Chart`. */
+export function renderChart(canvas: HTMLCanvasElement, config: ChartConfig): Chart;
+
+/** Arrow-key navigation between points, announced through `status`. */
+export function enableKeyboardNavigation(chart: Chart, canvas: HTMLCanvasElement, status: HTMLElement | null): void;
@@ -0,0 +1,521 @@
+/**
+ * Browser-side code embedded in generated pages, and the same module the app
+ * imports for its exports. It defines `buildChartJsConfig(config)`, which turns
+ * a serialized ChartConfig into a Chart.js configuration (scales, legend,
+ * tooltips, number formats, annotations, patterns), `renderChart(canvas,
+ * config)`, which draws it with the global `Chart`, and
+ * `enableKeyboardNavigation(chart, canvas, status)`. Plain ES2015 so the
+ * exported file runs without a build step; only top-level `export` keywords
+ * are stripped when it is embedded.
+ */
+export function buildChartJsConfig(config) {
+  const options = config.options;
+  const theme = config.theme;
+  const format = options.valueFormat;
+  const horizontal = options.horizontal && config.type === 'bar';
+  const valueAxis = horizontal ? 'x' : 'y';
+  const categoryAxis = horizontal ? 'y' : 'x';
+  const hasOverride = format.prefix !== '' || format.suffix !== '';
+  const sliceChart = config.type === 'pie' || config.type === 'doughnut' || config.type === 'polarArea';
+  const showPercentages = sliceChart && options.showPercentages;
+
+  // Prefix/suffix from the options win over the unit found in the data ("$", "%", ...)
+  function formatValue(value, unit) {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    if (typeof value === 'number') {
+      text = format.decimals === null
+        ? value.toLocaleString()
+        : value.toLocaleString(undefined, { minimumFractionDigits: format.decimals, maximumFractionDigits: format.decimals });
+    }
+    if (hasOverride) return format.prefix + text + format.suffix;
+    return unit ? unit.prefix + text + unit.suffix : text;
+  }
+
+  function axisUnit(axisId) {
+    const dataset = config.datasets.find(function(d) { return (d.yAxisID || 'y') === axisId && d.unit; });
+    return dataset ? dataset.unit : null;
+  }
+
+  function axisTitle(text) {
+    return { display: text !== '', text: text, color: theme.textColor };
+  }
+
+  function valueScale(axisId, title) {
+    const unit = axisUnit(axisId);
+    const scale = {
+      type: options.scale,
+      // A log axis can't start at zero
+      beginAtZero: options.scale === 'linear' && options.beginAtZero,
+      stacked: options.stacked,
+      title: axisTitle(title),
+      grid: {
+        color: theme.gridColor
+      },
+      ticks: {
+        color: theme.textColor
+      }
+    };
+    if (options.suggestedMin !== null) scale.suggestedMin = options.suggestedMin;
+    if (options.suggestedMax !== null) scale.suggestedMax = options.suggestedMax;
+    if (unit || hasOverride || format.decimals !== null) {
+      scale.ticks.callback = function(value) { return formatValue(value, unit); };
+    }
+    return scale;
+  }
+
+  const scales = {};
+  if (config.axes === 'cartesian') {
+    scales[valueAxis] = valueScale('y', options.yAxisTitle);
+    scales[categoryAxis] = {
+      stacked: options.stacked,
+      title: axisTitle(options.xAxisTitle),
+      grid: {
+        display: false
+      },
+      ticks: {
+        color: theme.textColor
+      }
+    };
+
+    // Secondary axis for series mapped to the right-hand side
+    if (config.datasets.some(function(dataset) { return dataset.yAxisID === 'y1'; })) {
+      scales.y1 = valueScale('y1', options.y1AxisTitle);
+      scales.y1.position = 'right';
+      scales.y1.grid = { drawOnChartArea: false };
+    }
+
+    // Date labels: Chart.js time scale (the date-fns adapter is inlined in the page)
+    if (config.xAxis && config.xAxis.type === 'time') {
+      const time = { displayFormats: {} };
+      if (config.xAxis.unit) time.unit = config.xAxis.unit;
+      if (config.xAxis.displayFormat) {
+        time.tooltipFormat = config.xAxis.displayFormat;
+        const units = config.xAxis.unit ? [config.xAxis.unit] : ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+        units.forEach(function(unit) { time.displayFormats[unit] = config.xAxis.displayFormat; });
+      }
+      scales[categoryAxis].type = 'time';
+      scales[categoryAxis].time = time;
+    }
+  } else if (config.axes === 'radial') {
+    // Chart.js has no logarithmic radial scale, so r keeps its default type
+    scales.r = valueScale('y', '');
+    delete scales.r.type;
+    delete scales.r.title;
+    delete scales.r.stacked;
+    scales.r.grid = { color: theme.gridColor };
+    scales.r.angleLines = { color: theme.gridColor };
+    scales.r.pointLabels = { color: theme.textColor };
+    scales.r.ticks.backdropColor = 'transparent';
+  }
+
+  // Fill under line series; stacked areas fill down to the previous series
+  if (options.fill) {
+    let lineIndex = 0;
+    config.datasets.forEach(function(dataset) {
+      if ((dataset.type || config.type) !== 'line' || dataset.trend) return;
+      dataset.fill = options.stacked && lineIndex > 0 ? '-1' : 'origin';
+      lineIndex++;
+    });
+  }
+
+  // Textures drawn over each series' color, so series (and slices) can be told
+  // apart without relying on color. Without a DOM (workers) colors stay as they are.
+  function createPattern(color, index) {
+    if (typeof color !== 'string' || typeof document === 'undefined') return color;
+    const size = 12;
+    const tile = document.createElement('canvas');
+    tile.width = size;
+    tile.height = size;
+    const ctx = tile.getContext('2d');
+    if (!ctx) return color;
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, size, size);
+    ctx.strokeStyle = 'rgba(255,255,255,0.75)';
+    ctx.fillStyle = 'rgba(255,255,255,0.75)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    switch (index % 6) {
+      case 0:
+        ctx.moveTo(0, size);
+        ctx.lineTo(size, 0);
+        break;
+      case 1:
+        ctx.arc(size / 2, size / 2, 2, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 2:
+        ctx.moveTo(0, size / 2);
+        ctx.lineTo(size, size / 2);
+        break;
+      case 3:
+        ctx.moveTo(0, 0);
+        ctx.lineTo(size, size);
+        break;
+      case 4:
+        ctx.moveTo(size / 2, 0);
+        ctx.lineTo(size / 2, size);
+        ctx.moveTo(0, size / 2);
+        ctx.lineTo(size, size / 2);
+        break;
+      default:
+        ctx.moveTo(size / 2, 0);
+        ctx.lineTo(size / 2, size);
+    }
+    ctx.stroke();
+    return ctx.createPattern(tile, 'repeat') || color;
+  }
+
+  if (options.patterns) {
+    const dashes = [[], [8, 4], [2, 3], [12, 4, 2, 4], [4, 4], [16, 6]];
+    const pointStyles = ['circle', 'rect', 'triangle', 'rectRot', 'star', 'crossRot'];
+    let seriesIndex = 0;
+    config.datasets.forEach(function(dataset) {
+      if (dataset.trend) return;
+      const index = seriesIndex++;
+      dataset.backgroundColor = Array.isArray(dataset.backgroundColor)
+        ? dataset.backgroundColor.map(function(color, slice) { return createPattern(color, slice); })
+        : createPattern(dataset.backgroundColor, index);
+      dataset.pointStyle = pointStyles[index % pointStyles.length];
+      if ((dataset.type || config.type) === 'line') dataset.borderDash = dashes[index % dashes.length];
+    });
+  }
+
+  // Share of the dataset total, ignoring hidden slices and gaps
+  function percentageOf(chart, datasetIndex, index) {
+    const values = chart.data.datasets[datasetIndex].data;
+    let total = 0;
+    values.forEach(function(value, i) {
+      if (typeof value === 'number' && chart.getDataVisibility(i)) total += Math.abs(value);
+    });
+    const value = values[index];
+    return total > 0 && typeof value === 'number' ? (Math.abs(value) / total) * 100 : null;
+  }
+
+  function formatPercentage(percentage) {
+    return percentage.toLocaleString(undefined, { maximumFractionDigits: percentage < 10 ? 1 : 0 }) + '%';
+  }
+
+  // Draws each slice's share at its centre; slices under 3% are too thin to label
+  const percentageLabels = {
+    id: 'percentageLabels',
+    afterDatasetsDraw: function(chart) {
+      const ctx = chart.ctx;
+      ctx.save();
+      ctx.font = 'bold 12px -apple-system, BlinkMacSystemFont, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = 'rgba(0,0,0,0.45)';
+      ctx.lineWidth = 3;
+      chart.data.datasets.forEach(function(dataset, datasetIndex) {
+        const meta = chart.getDatasetMeta(datasetIndex);
+        if (meta.hidden) return;
+        meta.data.forEach(function(arc, index) {
+          const percentage = percentageOf(chart, datasetIndex, index);
+          if (percentage === null || percentage < 3 || !chart.getDataVisibility(index)) return;
+          const position = arc.tooltipPosition();
+          const text = formatPercentage(percentage);
+          ctx.strokeText(text, position.x, position.y);
+          ctx.fillText(text, position.x, position.y);
+        });
+      });
+      ctx.restore();
+    }
+  };
+
+  // Pixel position of a mark on a scale: category axes get a label, the others a number
+  function annotationPixel(scale, value) {
+    if (!scale || value === null || value === undefined) return null;
+    if (typeof value === 'string') {
+      const index = scale.getLabels().indexOf(value);
+      return index === -1 ? null : scale.getPixelForValue(index);
+    }
+    return scale.getPixelForValue(value);
+  }
+
+  // Category ranges cover whole categories, not just the points at their centres
+  function categoryPadding(scale) {
+    if (scale.type !== 'category' || scale.getLabels().length < 2) return 0;
+    return Math.abs(scale.getPixelForValue(1) - scale.getPixelForValue(0)) / 2;
+  }
+
+  function drawMarkLabel(ctx, text, x, y, color, align) {
+    if (!text) return;
+    ctx.font = '600 12px -apple-system, BlinkMacSystemFont, sans-serif';
+    ctx.textAlign = align;
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y);
+  }
+
+  // Reference lines, shaded ranges and callouts. The marks travel on chart.data,
+  // so preview updates and dashboard filters that swap the data keep them current.
+  const annotationMarks = {
+    id: 'annotationMarks',
+    beforeDatasetsDraw: function(chart) {
+      const area = chart.chartArea;
+      const ctx = chart.ctx;
+      (chart.data.annotations || []).forEach(function(mark) {
+        if (mark.kind !== 'range') return;
+        const scale = chart.scales[mark.axis === 'y' ? valueAxis : categoryAxis];
+        const from = annotationPixel(scale, mark.from);
+        const to = annotationPixel(scale, mark.to);
+        if (from === null || to === null) return;
+        const padding = categoryPadding(scale);
+        const start = Math.max(Math.min(from, to) - padding, scale.isHorizontal() ? area.left : area.top);
+        const end = Math.min(Math.max(from, to) + padding, scale.isHorizontal() ? area.right : area.bottom);
+        if (end <= start) return;
+        ctx.save();
+        ctx.globalAlpha = 0.15;
+        ctx.fillStyle = mark.color;
+        if (scale.isHorizontal()) ctx.fillRect(start, area.top, end - start, area.bottom - area.top);
+        else ctx.fillRect(area.left, start, area.right - area.left, end - start);
+        ctx.globalAlpha = 1;
+        if (scale.isHorizontal()) drawMarkLabel(ctx, mark.label, start + 4, area.top + 16, mark.color, 'left');
+        else drawMarkLabel(ctx, mark.label, area.left + 4, start + 16, mark.color, 'left');
+        ctx.restore();
+      });
+    },
+    afterDatasetsDraw: function(chart) {
+      const area = chart.chartArea;
+      const ctx = chart.ctx;
+      (chart.data.annotations || []).forEach(function(mark) {
+        ctx.save();
+        if (mark.kind === 'line') {
+          const scale = chart.scales[mark.axis === 'y' ? valueAxis : categoryAxis];
+          const position = annotationPixel(scale, mark.value);
+          const horizontal = scale && scale.isHorizontal();
+          if (position === null || position < (horizontal ? area.left : area.top) ||
+              position > (horizontal ? area.right : area.bottom)) {
+            ctx.restore();
+            return;
+          }
+          ctx.strokeStyle = mark.color;
+          ctx.lineWidth = 2;
+          ctx.setLineDash([6, 4]);
+          ctx.beginPath();
+          if (horizontal) {
+            ctx.moveTo(position, area.top);
+            ctx.lineTo(position, area.bottom);
+          } else {
+            ctx.moveTo(area.left, position);
+            ctx.lineTo(area.right, position);
+          }
+          ctx.stroke();
+          ctx.setLineDash([]);
+          if (horizontal) drawMarkLabel(ctx, mark.label, position + 4, area.top + 16, mark.color, 'left');
+          else drawMarkLabel(ctx, mark.label, area.right - 4, position - 4, mark.color, 'right');
+        } else if (mark.kind === 'point') {
+          const categoryScale = chart.scales[categoryAxis];
+          const valueScale = chart.scales[valueAxis];
+          const along = annotationPixel(categoryScale, mark.x);
+          let across = annotationPixel(valueScale, mark.y);
+          // No y given: sit on the first visible series at that label
+          if (across === null && typeof mark.x === 'string' && along !== null) {
+            const index = categoryScale.getLabels().indexOf(mark.x);
+            const meta = chart.getSortedVisibleDatasetMetas()[0];
+            const element = meta && meta.data[index];
+            if (element) across = categoryScale.isHorizontal() ? element.y : element.x;
+          }
+          if (along === null || across === null) {
+            ctx.restore();
+            return;
+          }
+          const x = categoryScale.isHorizontal() ? along : across;
+          const y = categoryScale.isHorizontal() ? across : along;
+          if (x < area.left || x > area.right || y < area.top || y > area.bottom) {
+            ctx.restore();
+            return;
+          }
+          ctx.fillStyle = mark.color;
+          ctx.strokeStyle = mark.color;
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.arc(x, y, 4, 0, Math.PI * 2);
+          ctx.fill();
+          if (mark.label) {
+            ctx.font = '600 12px -apple-system, BlinkMacSystemFont, sans-serif';
+            const width = ctx.measureText(mark.label).width + 12;
+            // Callouts point down at the value, or up when there's no room above
+            const above = y - 40 >= area.top;
+            const boxY = above ? y - 40 : y + 18;
+            const boxX = Math.min(Math.max(x - width / 2, area.left), area.right - width);
+            ctx.beginPath();
+            ctx.moveTo(x, y);
+            ctx.lineTo(x, above ? boxY + 22 : boxY);
+            ctx.stroke();
+            ctx.fillRect(boxX, boxY, width, 22);
+            ctx.fillStyle = '#ffffff';
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(mark.label, boxX + 6, boxY + 11);
+          }
+        }
+        ctx.restore();
+      });
+    }
+  };
+
+  const hasMarks = Boolean(config.annotations && config.annotations.length);
+  const chartPlugins = [];
+  if (showPercentages) chartPlugins.push(percentageLabels);
+  if (hasMarks) chartPlugins.push(annotationMarks);
+
+  const chartJsConfig = {
+    type: config.type,
+    data: {
+      labels: config.labels,
+      datasets: config.datasets
+    },
+    plugins: chartPlugins,
+    options: {
+      responsive: true,
+      maintainAspectRatio: true,
+      indexAxis: horizontal ? 'y' : 'x',
+      interaction: {
+        mode: options.tooltipMode,
+        intersect: options.tooltipMode !== 'index'
+      },
+      plugins: {
+        legend: {
+          display: options.legend.display,
+          position: options.legend.position,
+          labels: {
+            usePointStyle: true,
+            padding: 20,
+            color: theme.textColor
+          }
+        },
+        title: {
+          display: false
+        },
+        tooltip: {
+          backgroundColor: 'rgba(0,0,0,0.8)',
+          titleColor: '#fff',
+          bodyColor: '#fff',
+          borderColor: 'rgba(255,255,255,0.2)',
+          borderWidth: 1,
+          cornerRadius: 6,
+          displayColors: true,
+          callbacks: {
+            label: function(context) {
+              const unit = context.dataset.unit;
+              // Bubble radii are scaled to pixels, so the size shown is the data's own (_r)
+              if (config.type === 'bubble') {
+                const point = context.raw;
+                const size = point._r === undefined ? '' : ', ' + point._r.toLocaleString();
+                return context.dataset.label + ': (' + point.x.toLocaleString() + ', ' + formatValue(point.y, unit) + size + ')';
+              }
+              if (!unit && !hasOverride && format.decimals === null && !showPercentages) return undefined;
+              // Cartesian charts parse to {x, y}, radar and polar area to {r}, pie and doughnut to a plain number
+              const parsed = context.parsed;
+              const isObject = typeof parsed === 'object';
+              const value = isObject ? (parsed.r !== undefined ? parsed.r : parsed[valueAxis]) : parsed;
+              let text = (sliceChart ? context.label : context.dataset.label) + ': ' + formatValue(value, unit);
+              if (showPercentages) {
+                const percentage = percentageOf(context.chart, context.datasetIndex, context.dataIndex);
+                if (percentage !== null) text += ' (' + formatPercentage(percentage) + ')';
+              }
+              return text;
+            }
+          }
+        }
+      },
+      scales: scales
+    }
+  };
+
+  if (hasMarks) chartJsConfig.data.annotations = config.annotations;
+
+  // Animating thousands of elements stalls the first draw and every resize,
+  // whatever the chart type, so series past 1000 points are drawn without it
+  const largest = config.datasets.reduce(function(most, dataset) { return Math.max(most, dataset.data.length); }, 0);
+  if (largest > 1000) chartJsConfig.options.animation = false;
+
+  // Chart.js decimation only runs on line datasets over a linear or time axis
+  // with parsing off, so only time axes (unparsed {x, y} points) can use it; it
+  // re-samples to the canvas width on resize. Category lines and scatter charts
+  // were already thinned to maxPoints when the config was built.
+  if ((options.downsample === 'lttb' || options.downsample === 'min-max') && config.type === 'line' &&
+      config.xAxis && config.xAxis.type === 'time') {
+    chartJsConfig.options.parsing = false;
+    chartJsConfig.options.animation = false;
+    chartJsConfig.options.plugins.decimation = { enabled: true, algorithm: options.downsample };
+  }
+  return chartJsConfig;
+}
+
+export function renderChart(canvas, config) {
+  return new Chart(canvas, buildChartJsConfig(config));
+}
+
+// Arrow keys step through data points: left/right along a series, up/down
+// between series, Home/End to either end and Escape to leave. Each step shows
+// the tooltip and puts its text in the status live region for screen readers.
+export function enableKeyboardNavigation(chart, canvas, status) {
+  let datasetIndex = -1;
+  let index = 0;
+
+  function clear() {
+    datasetIndex = -1;
+    chart.setActiveElements([]);
+    chart.tooltip.setActiveElements([], { x: 0, y: 0 });
+    chart.update();
+  }
+
+  function show() {
+    const points = chart.getDatasetMeta(datasetIndex).data;
+    const element = points[index];
+    if (!element) return;
+    const active = [{ datasetIndex: datasetIndex, index: index }];
+    chart.setActiveElements(active);
+    chart.tooltip.setActiveElements(active, element.tooltipPosition());
+    chart.update();
+    const lines = (chart.tooltip.title || []).concat(
+      (chart.tooltip.body || []).reduce(function(all, item) { return all.concat(item.lines); }, [])
+    );
+    status.textContent = lines.join(', ') + ' (' + (index + 1) + ' of ' + points.length + ')';
+  }
+
+  canvas.addEventListener('keydown', function(event) {
+    const visible = chart.data.datasets
+      .map(function(dataset, i) { return i; })
+      .filter(function(i) { return chart.isDatasetVisible(i) && chart.getDatasetMeta(i).data.length > 0; });
+    if (visible.length === 0) return;
+    const keys = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'Escape'];
+    if (keys.indexOf(event.key) === -1) return;
+    event.preventDefault();
+    if (event.key === 'Escape') {
+      clear();
+      status.textContent = '';
+      return;
+    }
+
+    let position = visible.indexOf(datasetIndex);
+    // The first key press lands on the first point
+    if (position === -1) {
+      position = 0;
+      index = 0;
+    } else if (event.key === 'ArrowRight') {
+      index++;
+    } else if (event.key === 'ArrowLeft') {
+      index--;
+    } else if (event.key === 'ArrowDown') {
+      position = Math.min(position + 1, visible.length - 1);
+    } else if (event.key === 'ArrowUp') {
+      position = Math.max(position - 1, 0);
+    } else if (event.key === 'Home') {
+      index = 0;
+    } else {
+      index = Infinity;
+    }
+    datasetIndex = visible[position];
+    index = Math.max(0, Math.min(index, chart.getDatasetMeta(datasetIndex).data.length - 1));
+    show();
+  });
+
+  canvas.addEventListener('blur', function() {
+    if (datasetIndex !== -1) clear();
+  });
+}
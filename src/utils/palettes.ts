@@ -0,0 +1,89 @@
+import { PageTheme, Palette } from '../types';
+
+export const palettes: Palette[] = [
+  // Hues come from the golden angle, so there is no fixed list
+  { id: 'golden', name: 'Golden angle (default)', kind: 'categorical', colors: [] },
+  {
+    id: 'tableau10',
+    name: 'Tableau 10',
+    kind: 'categorical',
+    colors: ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'],
+  },
+  {
+    id: 'okabe-ito',
+    name: 'Okabe-Ito (colorblind-safe)',
+    kind: 'categorical',
+    colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7', '#000000'],
+  },
+  { id: 'blues', name: 'Blues (sequential)', kind: 'sequential', colors: ['#9ecae1', '#08306b'] },
+  {
+    id: 'viridis',
+    name: 'Viridis (sequential, colorblind-safe)',
+    kind: 'sequential',
+    colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  },
+  { id: 'red-blue', name: 'Red-Blue (diverging)', kind: 'diverging', colors: ['#b2182b', '#f7f7f7', '#2166ac'] },
+  { id: 'custom', name: 'Custom colors', kind: 'categorical', colors: [] },
+];
+
+export const isHexColor = (value: string) => /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim());
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  let digits = hex.trim().slice(1);
+  if (digits.length === 3) digits = digits.split('').map(d => d + d).join('');
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const rgbToHex = (rgb: number[]) => `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+export const hexToRgba = (hex: string, alpha: number) => `rgba(${hexToRgb(hex).join(', ')}, ${alpha})`;
+
+/** Picks `count` evenly spaced colors along a gradient through `stops`. */
+const interpolate = (stops: string[], count: number) => {
+  if (count === 1) return [stops[Math.floor(stops.length / 2)]];
+  const rgbStops = stops.map(hexToRgb);
+  return Array.from({ length: count }, (_, i) => {
+    const position = (i / (count - 1)) * (rgbStops.length - 1);
+    const index = Math.min(Math.floor(position), rgbStops.length - 2);
+    const t = position - index;
+    return rgbToHex(rgbStops[index].map((c, channel) => c + (rgbStops[index + 1][channel] - c) * t));
+  });
+};
+
+/** Parses a custom palette typed as hex codes separated by commas, spaces or newlines. */
+export const parseColorList = (text: string) => text.split(/[\s,;]+/).filter(isHexColor);
+
+export interface SeriesColor {
+  background: string;
+  border: string;
+  // Lighter variant for filled areas such as radar shapes.
+  area: string;
+}
+
+export const colorFromHex = (hex: string): SeriesColor => ({
+  background: hexToRgba(hex, 0.6),
+  border: hex,
+  area: hexToRgba(hex, 0.2),
+});
+
+export const generateColors = (count: number, theme: Pick<PageTheme, 'palette' | 'customColors'>): SeriesColor[] => {
+  const palette = palettes.find(p => p.id === theme.palette);
+  const colors = palette?.id === 'custom' ? theme.customColors.filter(isHexColor) : palette?.colors || [];
+
+  if (colors.length === 0) {
+    return Array.from({ length: count }, (_, i) => {
+      const hue = (i * 137.5) % 360; // Golden angle approximation
+      return {
+        background: `hsla(${hue}, 70%, 60%, 0.6)`,
+        border: `hsla(${hue}, 70%, 50%, 1)`,
+        area: `hsla(${hue}, 70%, 60%, 0.2)`,
+      };
+    });
+  }
+
+  const hexes = palette?.kind === 'categorical'
+    ? Array.from({ length: count }, (_, i) => colors[i % colors.length])
+    : interpolate(colors, count);
+  return hexes.map(colorFromHex);
+};
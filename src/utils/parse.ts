@@ -0,0 +1,33 @@
+import { DataObject, ParsedData } from '../types';
+import { coerceData, NumberLocale } from './coerce';
+import { Delimiter, parseCSV } from './csv';
+import { parseJSON } from './json';
+
+export interface ParseOptions {
+  delimiter?: Delimiter | 'auto';
+  numberLocale?: NumberLocale;
+  // Dot path or simple JSONPath to the record array, e.g. "data.items".
+  jsonPath?: string;
+}
+
+export const parseInput = (text: string, options: ParseOptions = {}): ParsedData => {
+  // Try JSON first
+  const json = parseJSON(text, options.jsonPath);
+  if (json) {
+    return { type: json.type, ...coerceData(json.data, options.numberLocale) };
+  }
+
+  // Parse as CSV/TSV
+  const { headers, rows } = parseCSV(text, options.delimiter);
+
+  const data = rows.map(row => {
+    const obj: DataObject = {};
+    headers.forEach((header, index) => {
+      obj[header] = row[index];
+    });
+    return obj;
+  });
+
+  // Convert numeric-looking columns, including "1,234", "$120" and "45%"
+  return { type: 'csv', ...coerceData(data, options.numberLocale) };
+};
@@ -0,0 +1,126 @@
+import { chartRuntimeScript } from './chartRuntime';
+import { createNonce } from './escape';
+import { dateAdapterScript } from './vendorScripts';
+
+export const PREVIEW_READY = 'chartcraft:ready';
+export const PREVIEW_RENDER = 'chartcraft:render';
+
+// The sandboxed document has an opaque origin, so there is no narrower target than '*'.
+export const postPreviewConfig = (frame: HTMLIFrameElement | null, configJson: string) => {
+  frame?.contentWindow?.postMessage({ type: PREVIEW_RENDER, config: configJson }, '*');
+};
+
+/**
+ * Long-lived document for the preview iframe. Chart.js and the date adapter
+ * are inlined once, then the app posts each new ChartConfig as JSON and the
+ * chart is updated in place instead of reloading the page.
+ *
+ * The iframe is sandboxed without allow-same-origin, so messages are the only
+ * channel: the document only accepts them from its parent and applies theme
+ * colors through the CSSOM, which ignores invalid values.
+ */
+export const createPreviewDocument = (chartJsSource: string) => {
+  const nonce = createNonce();
+  const contentSecurityPolicy = [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    "style-src 'unsafe-inline'",
+    'img-src data: blob:',
+    "base-uri 'none'",
+    "form-action 'none'",
+  ].join('; ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy}">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <style>
+      body {
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        margin: 0;
+        padding: 20px;
+        background: var(--page-background);
+      }
+      .container {
+        max-width: 900px;
+        margin: 0 auto;
+        background: var(--card-background);
+        border-radius: 12px;
+        box-shadow: 0 4px 6px -1px rgba(0,0,0,0.1);
+        overflow: hidden;
+      }
+      .header {
+        padding: 24px;
+        background: var(--header-background);
+        color: var(--header-text);
+        text-align: center;
+      }
+      .header h1 { margin: 0; font-size: 24px; font-weight: 600; }
+      .chart-container { padding: 24px; }
+      body.embed { padding: 0; }
+      body.embed .container { max-width: none; border-radius: 0; box-shadow: none; }
+      body.embed .header { display: none; }
+      body.embed .chart-container { padding: 0; }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <div class="header">
+        <h1 id="title"></h1>
+      </div>
+      <div class="chart-container">
+        <canvas id="chart"></canvas>
+      </div>
+    </div>
+
+    <script nonce="${nonce}">${chartJsSource}</script>
+    <script nonce="${nonce}">${dateAdapterScript}</script>
+    <script nonce="${nonce}">${chartRuntimeScript}
+      const canvas = document.getElementById('chart');
+      const themeVariables = {
+        '--page-background': 'pageBackground',
+        '--card-background': 'cardBackground',
+        '--header-background': 'headerBackground',
+        '--header-text': 'headerText'
+      };
+      let chart = null;
+      let pluginCount = 0;
+
+      function applyPage(config) {
+        document.getElementById('title').textContent = config.title;
+        document.body.classList.toggle('embed', config.theme.layout === 'embed');
+        Object.keys(themeVariables).forEach(function(name) {
+          document.documentElement.style.setProperty(name, String(config.theme[themeVariables[name]]));
+        });
+      }
+
+      // Same chart type: swap data and options so Chart.js animates the change.
+      // Inline plugins are fixed at creation, so a change there needs a new chart.
+      function draw(config) {
+        const next = buildChartJsConfig(config);
+        const plugins = next.plugins ? next.plugins.length : 0;
+        if (chart && chart.config.type === next.type && pluginCount === plugins) {
+          chart.data = next.data;
+          chart.options = next.options;
+          chart.update();
+          return;
+        }
+        if (chart) chart.destroy();
+        chart = new Chart(canvas, next);
+        pluginCount = plugins;
+      }
+
+      window.addEventListener('message', function(event) {
+        if (event.source !== window.parent || !event.data || event.data.type !== '${PREVIEW_RENDER}') return;
+        const config = JSON.parse(event.data.config);
+        applyPage(config);
+        draw(config);
+      });
+
+      window.parent.postMessage({ type: '${PREVIEW_READY}' }, '*');
+    </script>
+  </body>
+</html>`;
+};
@@ -0,0 +1,158 @@
+import { ColumnMapping, ColumnType, DataObject } from '../types';
+import { getColumns, toNumber } from './columns';
+import { parseDate } from './dates';
+
+export interface ColumnProfile {
+  key: string;
+  type: ColumnType;
+  // Distinct non-empty values
+  distinct: number;
+  missing: number;
+  // Numbers: smallest and largest value. Dates: earliest and latest timestamp.
+  min: number | null;
+  max: number | null;
+  negatives: number;
+}
+
+export interface DataProfile {
+  rows: number;
+  columns: ColumnProfile[];
+}
+
+const profileColumn = (data: DataObject[], key: string, type: ColumnType): ColumnProfile => {
+  const seen = new Set<string | number>();
+  let missing = 0;
+  let negatives = 0;
+  let min: number | null = null;
+  let max: number | null = null;
+
+  data.forEach(row => {
+    const value = row[key];
+    if (value === null || value === undefined || value === '') {
+      missing++;
+      return;
+    }
+    seen.add(value);
+    const numeric = type === 'number' ? toNumber(value) : type === 'date' ? parseDate(value) : null;
+    if (numeric === null) return;
+    if (numeric < 0) negatives++;
+    if (min === null || numeric < min) min = numeric;
+    if (max === null || numeric > max) max = numeric;
+  });
+
+  return { key, type, distinct: seen.size, missing, min, max, negatives };
+};
+
+/** Row count plus type, cardinality, gaps and range for every column. */
+export const profileData = (data: DataObject[]): DataProfile => ({
+  rows: data.length,
+  columns: getColumns(data).map(({ key, type }) => profileColumn(data, key, type)),
+});
+
+export interface ChartSuggestion {
+  type: string;
+  suitable: boolean;
+  // What the type shows with this data, or what it is missing
+  reason: string;
+  // Label column to switch to when the suggestion is applied
+  labelKey?: string;
+}
+
+// Beyond these, slices and spokes get too thin to read.
+const MAX_SLICES = 8;
+const MAX_POLAR_SLICES = 12;
+const MAX_RADAR_CATEGORIES = 20;
+const MAX_BARS = 100;
+
+/** "1 category", "3 categories": the count with the word in the right form. */
+export const plural = (count: number, word: string, many = `${word}s`) =>
+  `${count.toLocaleString('en-US')} ${count === 1 ? word : many}`;
+const categoryCount = (count: number) => plural(count, 'category', 'categories');
+
+/**
+ * Judges every chart type against the data's shape and the current column
+ * mapping. Unsuitable types get a one-line reason for the chart type picker.
+ */
+export const suggestChartTypes = (profile: DataProfile, mapping: ColumnMapping): Record<string, ChartSuggestion> => {
+  const column = (key: string) => profile.columns.find(candidate => candidate.key === key);
+  const numeric = profile.columns.filter(candidate => candidate.type === 'number');
+  const dateColumn = profile.columns.find(candidate => candidate.type === 'date');
+  const label = column(mapping.labelKey);
+  const series = mapping.series
+    .filter(s => s.enabled)
+    .map(s => column(s.key))
+    .filter((candidate): candidate is ColumnProfile => candidate?.type === 'number');
+  const categories = label?.distinct || 0;
+
+  const suggestion = (type: string, problem: string | null, reason: string, labelKey?: string): ChartSuggestion =>
+    problem ? { type, suitable: false, reason: problem } : { type, suitable: true, reason, labelKey };
+
+  if (numeric.length === 0) {
+    const reason = 'No numeric columns to plot.';
+    return Object.fromEntries(
+      ['bar', 'line', 'pie', 'doughnut', 'radar', 'bubble', 'scatter', 'polarArea'].map(type => [
+        type,
+        { type, suitable: false, reason },
+      ])
+    );
+  }
+
+  const noSeries = series.length === 0 ? 'No value columns selected.' : null;
+  const sliceProblem = (maxSlices: number) =>
+    noSeries ||
+    (series.length > 1 ? `Shows one value column; ${series.length} are selected.` : null) ||
+    (series[0].negatives > 0 ? `"${series[0].key}" has negative values, which slices can't show.` : null) ||
+    (categories > maxSlices ? `${categoryCount(categories)} is too many slices; ${maxSlices} or fewer read best.` : null) ||
+    (categories < 2 ? 'Needs at least 2 categories.' : null);
+
+  return {
+    bar: suggestion(
+      'bar',
+      noSeries || (categories > MAX_BARS ? `${categoryCount(categories)} is too many bars to compare.` : null),
+      `Compares ${plural(series.length, 'series', 'series')} across ${categoryCount(categories)}.`
+    ),
+    line: dateColumn
+      ? suggestion('line', noSeries, `Shows trends over time in "${dateColumn.key}".`, dateColumn.key)
+      : suggestion(
+          'line',
+          noSeries || (profile.rows < 2 ? 'Needs at least 2 rows to draw a line.' : null),
+          'Connects values in row order.'
+        ),
+    pie: suggestion('pie', sliceProblem(MAX_SLICES), `Shows each category's share of "${series[0]?.key}".`),
+    doughnut: suggestion('doughnut', sliceProblem(MAX_SLICES), `Shows each category's share of "${series[0]?.key}".`),
+    polarArea: suggestion('polarArea', sliceProblem(MAX_POLAR_SLICES), 'Compares one value across categories by radius.'),
+    radar: suggestion(
+      'radar',
+      noSeries ||
+        (categories < 3 ? 'Needs at least 3 categories to form a shape.' : null) ||
+        (categories > MAX_RADAR_CATEGORIES ? `${categoryCount(categories)} is too many spokes.` : null),
+      `Compares ${plural(series.length, 'series', 'series')} across ${categoryCount(categories)}.`
+    ),
+    scatter: suggestion(
+      'scatter',
+      numeric.length < 2 ? 'Needs two numeric columns for X and Y.' : null,
+      `Plots "${numeric[1]?.key}" against "${numeric[0].key}".`
+    ),
+    bubble: suggestion(
+      'bubble',
+      numeric.length < 3 ? 'Needs three numeric columns for X, Y and size.' : null,
+      'Plots two numeric columns with a third as bubble size.'
+    ),
+  };
+};
+
+/**
+ * The type that reads best: a line over dates, a pie for one positive series
+ * with few categories, bars for other categories, and a scatter plot when
+ * every column is numeric.
+ */
+export const recommendChartType = (profile: DataProfile, suggestions: Record<string, ChartSuggestion>) => {
+  const hasCategories = profile.columns.some(column => column.type === 'text');
+  const hasDates = profile.columns.some(column => column.type === 'date');
+  const order = hasDates
+    ? ['line', 'bar']
+    : hasCategories
+      ? ['pie', 'bar', 'line']
+      : ['scatter', 'line', 'bar'];
+  return order.map(type => suggestions[type]).find(suggestion => suggestion?.suitable) || null;
+};
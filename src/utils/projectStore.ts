@@ -0,0 +1,93 @@
+import { ChartConfig, ChartProject, Dashboard, EditorState } from '../types';
+import { restoreDashboard } from './dashboard';
+import { restoreEditorState } from './editorState';
+
+// Projects can hold large datasets, so they live in IndexedDB rather than localStorage.
+const DB_NAME = 'chartcraft';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const SESSION = 'session';
+const SESSION_KEY = 'current';
+const DASHBOARD_KEY = 'dashboard';
+
+export interface Session {
+  projectId: string | null;
+  state: EditorState;
+  config: ChartConfig | null;
+  html: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Saving charts needs IndexedDB, which this browser has disabled.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECTS, { keyPath: 'id' });
+        request.result.createObjectStore(SESSION);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Could not open the chart library.'));
+    });
+    // Let a later call retry instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error || new Error('Chart library request failed.'));
+  });
+};
+
+const restoreProject = (project: ChartProject): ChartProject => ({ ...project, state: restoreEditorState(project.state) });
+
+/** All saved projects, most recently updated first. */
+export const listProjects = async () => {
+  const projects = await run<ChartProject[]>(PROJECTS, 'readonly', store => store.getAll());
+  return projects.map(restoreProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = (project: ChartProject) => run<IDBValidKey>(PROJECTS, 'readwrite', store => store.put(project));
+
+export const deleteProject = (id: string) => run<undefined>(PROJECTS, 'readwrite', store => store.delete(id));
+
+export const createProjectId = () =>
+  typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/** Matches the name, chart title or chart type, ignoring case. */
+export const searchProjects = (projects: ChartProject[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return projects;
+  return projects.filter(project =>
+    [project.name, project.state.title, project.state.chartType].some(text => text.toLowerCase().includes(needle))
+  );
+};
+
+export const loadSession = async (): Promise<Session | null> => {
+  const session = await run<Session | undefined>(SESSION, 'readonly', store => store.get(SESSION_KEY));
+  return session ? { ...session, state: restoreEditorState(session.state) } : null;
+};
+
+export const saveSession = (session: Session) =>
+  run<IDBValidKey>(SESSION, 'readwrite', store => store.put(session, SESSION_KEY));
+
+// The dashboard being built is kept next to the session, like an open document.
+export const loadDashboard = async (): Promise<Dashboard | null> => {
+  const dashboard = await run<Dashboard | undefined>(SESSION, 'readonly', store => store.get(DASHBOARD_KEY));
+  return dashboard ? restoreDashboard(dashboard) : null;
+};
+
+export const saveDashboard = (dashboard: Dashboard) =>
+  run<IDBValidKey>(SESSION, 'readwrite', store => store.put(dashboard, DASHBOARD_KEY));
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { defaultEditorState } from './editorState';
+import { createProjectFile, createShareLink, readProjectFile, readShareFragment } from './shareLink';
+
+const state = { ...defaultEditorState, input: 'month,sales\nJan,10', title: 'Sales' };
+
+describe('share links and project files', () => {
+  it('round-trip the editor state', () => {
+    const link = createShareLink(state, 'https://example.com/app#old') as string;
+    expect(readShareFragment(link.slice(link.indexOf('#')))).toEqual(state);
+    expect(readProjectFile(createProjectFile(state, 'Sales'))).toEqual({ name: 'Sales', state });
+  });
+
+  it('reject payloads with damaged fields', () => {
+    const file = JSON.stringify({
+      format: 'chartcraft',
+      version: 1,
+      state: { ...state, annotations: 'x', transformOptions: { computed: 1 } },
+    });
+    expect(() => readProjectFile(file)).toThrow(
+      "This chart has damaged settings (transformOptions.computed, annotations), so it wasn't opened."
+    );
+  });
+
+  it('reject files that are not charts', () => {
+    expect(() => readProjectFile('{"format":"other"}')).toThrow('This is not a ChartCraft chart.');
+    expect(() => readProjectFile('{')).toThrow('The project file is not valid JSON.');
+  });
+});
@@ -0,0 +1,73 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import { EditorState } from '../types';
+import { validateEditorState } from './editorState';
+
+// Everything stays in the fragment, which browsers never send to a server.
+const FRAGMENT_PREFIX = '#chart=';
+const FORMAT = 'chartcraft';
+const VERSION = 1;
+
+// Chat apps, mail clients and some browsers cut off longer URLs.
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export const PROJECT_FILE_EXTENSION = '.chartcraft.json';
+
+interface SharedChart {
+  format: typeof FORMAT;
+  version: number;
+  name?: string;
+  state: EditorState;
+}
+
+const toPayload = (state: EditorState, name?: string): SharedChart => ({ format: FORMAT, version: VERSION, name, state });
+
+const fromPayload = (value: unknown): { name?: string; state: EditorState } => {
+  const payload = value as Partial<SharedChart> | null;
+  if (!payload || payload.format !== FORMAT || typeof payload.state !== 'object' || payload.state === null) {
+    throw new Error('This is not a ChartCraft chart.');
+  }
+  if (typeof payload.version !== 'number' || payload.version > VERSION) {
+    throw new Error('This chart was saved by a newer version of ChartCraft.');
+  }
+  // Links and files can be edited or cut short; a damaged field could break the editor
+  const { state, invalid } = validateEditorState(payload.state);
+  if (invalid.length > 0) {
+    const more = invalid.length > 3 ? ` and ${invalid.length - 3} more` : '';
+    throw new Error(`This chart has damaged settings (${invalid.slice(0, 3).join(', ')}${more}), so it wasn't opened.`);
+  }
+  return { name: typeof payload.name === 'string' ? payload.name : undefined, state };
+};
+
+/** Returns the link, or null when the data makes it too long to share reliably. */
+export const createShareLink = (state: EditorState, baseUrl: string) => {
+  const url = `${baseUrl.split('#')[0]}${FRAGMENT_PREFIX}${compressToEncodedURIComponent(JSON.stringify(toPayload(state)))}`;
+  return url.length <= MAX_SHARE_URL_LENGTH ? url : null;
+};
+
+export const hasSharedChart = (hash: string) => hash.startsWith(FRAGMENT_PREFIX);
+
+export const readShareFragment = (hash: string): EditorState => {
+  const json = decompressFromEncodedURIComponent(hash.slice(FRAGMENT_PREFIX.length));
+  if (!json) throw new Error('The share link is incomplete or damaged.');
+  try {
+    return fromPayload(JSON.parse(json)).state;
+  } catch (err) {
+    throw err instanceof SyntaxError ? new Error('The share link is incomplete or damaged.') : err;
+  }
+};
+
+export const createProjectFile = (state: EditorState, name?: string) => JSON.stringify(toPayload(state, name), null, 2);
+
+export const isProjectFileName = (fileName: string) => fileName.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+
+export const readProjectFile = (text: string) => {
+  try {
+    return fromPayload(JSON.parse(text));
+  } catch (err) {
+    throw err instanceof SyntaxError ? new Error('The project file is not valid JSON.') : err;
+  }
+};
+
+/** "Weekly sales" -> "weekly-sales.chartcraft.json" */
+export const projectFileName = (name: string) =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chart'}${PROJECT_FILE_EXTENSION}`;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { addRow, readTable, removeRow, renameColumn, sortTable, updateCell, writeTable } from './table';
+
+const json = JSON.stringify([
+  { zip: '02134', id: '12345', sales: 10, note: null },
+  { zip: '90210', id: '2024', sales: 5, note: 'x' },
+]);
+
+describe('writeTable', () => {
+  it('keeps the JSON type of cells that were not edited', () => {
+    const table = readTable(json);
+    const written = JSON.parse(writeTable(updateCell(table, 0, 2, '12')));
+    expect(written).toEqual([
+      { zip: '02134', id: '12345', sales: 12, note: null },
+      { zip: '90210', id: '2024', sales: 5, note: 'x' },
+    ]);
+  });
+
+  it('keeps the types through sorting, renaming and row changes', () => {
+    let table = readTable(json);
+    table = sortTable(table, 2, 'asc');
+    table = renameColumn(table, 1, 'code');
+    table = removeRow(addRow(table), 2);
+    expect(JSON.parse(writeTable(table))).toEqual([
+      { zip: '90210', code: '2024', sales: 5, note: 'x' },
+      { zip: '02134', code: '12345', sales: 10, note: null },
+    ]);
+  });
+
+  it('types new cells from their text', () => {
+    const table = addRow(readTable(json));
+    const written = JSON.parse(writeTable(updateCell(updateCell(table, 2, 1, '7'), 2, 0, 'abc')));
+    expect(written[2]).toEqual({ zip: 'abc', id: 7, sales: null, note: null });
+  });
+});
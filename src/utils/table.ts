@@ -0,0 +1,157 @@
+import { DataObject } from '../types';
+import { coerceData, coerceValue, NumberLocale } from './coerce';
+import { Delimiter, parseCSV } from './csv';
+import { parseJSON } from './json';
+import { ParseOptions } from './parse';
+
+/**
+ * The input as text cells, before number coercion, so editing in the grid
+ * keeps formatting such as "$120" or "1.234,5" intact when written back.
+ */
+export interface RawTable {
+  format: 'csv' | 'json';
+  delimiter: Delimiter;
+  headers: string[];
+  rows: string[][];
+  // JSON only: each row's values as read, so cells that aren't edited keep their JSON type
+  values?: DataObject[];
+}
+
+const cellText = (value: DataObject[string]) => (value === null || value === undefined ? '' : String(value));
+
+/** Reads the same text `parseInput` does, throwing the same errors. */
+export const readTable = (text: string, options: ParseOptions = {}): RawTable => {
+  const json = parseJSON(text, options.jsonPath);
+  if (json) {
+    const headers = json.data.length > 0 ? Object.keys(json.data[0]) : [];
+    return {
+      format: 'json',
+      delimiter: ',',
+      headers,
+      rows: json.data.map(row => headers.map(header => cellText(row[header]))),
+      values: json.data,
+    };
+  }
+
+  const { delimiter, headers, rows } = parseCSV(text, options.delimiter);
+  return { format: 'csv', delimiter, headers, rows };
+};
+
+/**
+ * The table's cells coerced the way parseInput coerces them, one object per
+ * table row, so a grid row and its coerced values always share an index.
+ */
+export const coerceTable = (table: RawTable, locale: NumberLocale = 'auto'): DataObject[] =>
+  coerceData(
+    table.rows.map(row => Object.fromEntries(table.headers.map((header, index) => [header, row[index] ?? '']))),
+    locale
+  ).data;
+
+const quoteCell = (cell: string, delimiter: Delimiter) =>
+  /["\r\n]/.test(cell) || cell.includes(delimiter) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+// Plain JSON number literals only: "007" or "1,200" stay strings.
+const jsonNumberPattern = /^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+
+// Unedited cells are written back as read ("12345" stays a string); only
+// edited and new cells are typed from their text.
+const toJsonValue = (cell: string, original: DataObject[string] | undefined) => {
+  if (original !== undefined && cellText(original) === cell) return original;
+  const trimmed = cell.trim();
+  if (trimmed === '') return null;
+  return jsonNumberPattern.test(trimmed) ? Number(trimmed) : cell;
+};
+
+/**
+ * Writes the table back as text. JSON input comes back as a flat array of
+ * records, so nested fields keep their dotted column names.
+ */
+export const writeTable = (table: RawTable): string => {
+  if (table.format === 'json') {
+    const records = table.rows.map((row, rowIndex) =>
+      Object.fromEntries(
+        table.headers.map((header, index) => [header, toJsonValue(row[index] ?? '', table.values?.[rowIndex]?.[header])])
+      )
+    );
+    return JSON.stringify(records, null, 2);
+  }
+
+  return [table.headers, ...table.rows]
+    .map(row => row.map(cell => quoteCell(cell, table.delimiter)).join(table.delimiter))
+    .join('\n');
+};
+
+export const updateCell = (table: RawTable, rowIndex: number, columnIndex: number, value: string): RawTable => ({
+  ...table,
+  rows: table.rows.map((row, index) =>
+    index === rowIndex ? row.map((cell, column) => (column === columnIndex ? value : cell)) : row
+  ),
+});
+
+export const addRow = (table: RawTable): RawTable => ({
+  ...table,
+  rows: [...table.rows, table.headers.map(() => '')],
+  values: table.values && [...table.values, {}],
+});
+
+export const removeRow = (table: RawTable, rowIndex: number): RawTable => ({
+  ...table,
+  rows: table.rows.filter((_, index) => index !== rowIndex),
+  values: table.values?.filter((_, index) => index !== rowIndex),
+});
+
+/** Adds an empty column named "column N", picking the first unused N. */
+export const addColumn = (table: RawTable): RawTable => {
+  let n = table.headers.length + 1;
+  while (table.headers.includes(`column ${n}`)) n++;
+  return {
+    ...table,
+    headers: [...table.headers, `column ${n}`],
+    rows: table.rows.map(row => [...row, '']),
+  };
+};
+
+export const removeColumn = (table: RawTable, columnIndex: number): RawTable => ({
+  ...table,
+  headers: table.headers.filter((_, index) => index !== columnIndex),
+  rows: table.rows.map(row => row.filter((_, index) => index !== columnIndex)),
+});
+
+export const renameColumn = (table: RawTable, columnIndex: number, name: string): RawTable => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Column names cannot be empty.');
+  if (table.headers.some((header, index) => header === trimmed && index !== columnIndex)) {
+    throw new Error(`There is already a column named "${trimmed}".`);
+  }
+  const previous = table.headers[columnIndex];
+  return {
+    ...table,
+    headers: table.headers.map((header, index) => (index === columnIndex ? trimmed : header)),
+    values: table.values?.map(({ [previous]: value, ...rest }) => (value === undefined ? rest : { ...rest, [trimmed]: value })),
+  };
+};
+
+/**
+ * Sorts rows by one column: numbers (in any format coercion understands)
+ * numerically, everything else as text. Empty cells always go last.
+ */
+export const sortTable = (
+  table: RawTable,
+  columnIndex: number,
+  direction: 'asc' | 'desc',
+  locale: NumberLocale = 'auto'
+): RawTable => {
+  const sign = direction === 'asc' ? 1 : -1;
+  // Sorted by position so the JSON values move with their rows
+  const order = table.rows.map((_, index) => index).sort((a, b) => {
+    const left = table.rows[a][columnIndex] ?? '';
+    const right = table.rows[b][columnIndex] ?? '';
+    if (left.trim() === '' || right.trim() === '') return Number(left.trim() === '') - Number(right.trim() === '');
+    const leftNumber = coerceValue(left, locale);
+    const rightNumber = coerceValue(right, locale);
+    if (leftNumber && rightNumber) return (leftNumber.value - rightNumber.value) * sign;
+    return left.localeCompare(right, undefined, { numeric: true }) * sign;
+  });
+  const { rows, values } = table;
+  return { ...table, rows: order.map(index => rows[index]), values: values && order.map(index => values[index]) };
+};
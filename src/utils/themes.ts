@@ -0,0 +1,80 @@
+import { PageTheme } from '../types';
+
+export const themePresets: PageTheme[] = [
+  {
+    name: 'Light',
+    layout: 'card',
+    pageBackground: '#f8fafc',
+    cardBackground: '#ffffff',
+    headerBackground: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+    headerText: '#ffffff',
+    textColor: '#6b7280',
+    gridColor: 'rgba(0,0,0,0.05)',
+    accentColor: '#3b82f6',
+    palette: 'golden',
+    customColors: [],
+  },
+  {
+    name: 'Dark',
+    layout: 'card',
+    pageBackground: '#0f172a',
+    cardBackground: '#1e293b',
+    headerBackground: 'linear-gradient(135deg, #1e3a8a 0%, #4c1d95 100%)',
+    headerText: '#f8fafc',
+    textColor: '#cbd5e1',
+    gridColor: 'rgba(255,255,255,0.08)',
+    accentColor: '#3b82f6',
+    palette: 'tableau10',
+    customColors: [],
+  },
+  {
+    name: 'Minimal',
+    layout: 'card',
+    pageBackground: '#ffffff',
+    cardBackground: '#ffffff',
+    headerBackground: '#ffffff',
+    headerText: '#111827',
+    textColor: '#4b5563',
+    gridColor: 'rgba(0,0,0,0.06)',
+    accentColor: '#111827',
+    palette: 'okabe-ito',
+    customColors: [],
+  },
+  {
+    name: 'Embed (chart only)',
+    layout: 'embed',
+    pageBackground: 'transparent',
+    cardBackground: 'transparent',
+    headerBackground: 'transparent',
+    headerText: '#111827',
+    textColor: '#6b7280',
+    gridColor: 'rgba(0,0,0,0.05)',
+    accentColor: '#3b82f6',
+    palette: 'golden',
+    customColors: [],
+  },
+];
+
+export const defaultTheme = themePresets[0];
+
+// Colors, rgb()/hsl() functions, gradients and keywords only: theme values go
+// into a <style> block, so anything that could end the rule or the element is rejected.
+const safeCssValue = /^[#\w\s.,%()-]+$/;
+
+export const sanitizeCssValue = (value: string, fallback: string) =>
+  safeCssValue.test(value) && !/url\s*\(|expression\s*\(/i.test(value) ? value : fallback;
+
+const STORAGE_KEY = 'chartcraft:themes';
+
+export const loadSavedThemes = (): PageTheme[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.map(theme => ({ ...defaultTheme, ...theme })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedThemes = (themes: PageTheme[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+};
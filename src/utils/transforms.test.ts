@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, TransformOptions } from '../types';
+import { parseInput } from './parse';
+import { applyTransforms, defaultTransformOptions } from './transforms';
+
+const sales = parseInput(
+  [
+    'region,product,units,price',
+    'EU,A,10,2',
+    'EU,B,30,4',
+    'US,A,5,1',
+    'US,B,,3',
+    'APAC,A,8,6',
+    'LATAM,B,1,9',
+  ].join('\n')
+);
+
+const transform = (options: Partial<TransformOptions>, mapping?: ColumnMapping) =>
+  applyTransforms(sales, { ...defaultTransformOptions, ...options }, mapping).data;
+
+const series = (...enabled: string[]): ColumnMapping['series'] =>
+  ['units', 'price'].map(key => ({ key, enabled: enabled.includes(key), type: '', axis: 'y' }));
+
+describe('applyTransforms', () => {
+  it('groups rows and aggregates every numeric column, skipping gaps', () => {
+    expect(transform({ groupBy: 'region' })).toEqual([
+      { region: 'EU', units: 40, price: 6 },
+      { region: 'US', units: 5, price: 4 },
+      { region: 'APAC', units: 8, price: 6 },
+      { region: 'LATAM', units: 1, price: 9 },
+    ]);
+    expect(transform({ groupBy: 'region', aggregate: 'avg' })[1]).toEqual({ region: 'US', units: 5, price: 2 });
+    expect(transform({ groupBy: 'product', aggregate: 'count' })).toEqual([
+      { product: 'A', count: 3 },
+      { product: 'B', count: 3 },
+    ]);
+  });
+
+  it('pivots a series column into one column per value, with gaps for missing pairs', () => {
+    expect(transform({ groupBy: 'region', pivotSeries: 'product', pivotValue: 'units' })).toEqual([
+      { region: 'EU', A: 10, B: 30 },
+      { region: 'US', A: 5, B: null },
+      { region: 'APAC', A: 8, B: null },
+      { region: 'LATAM', A: null, B: 1 },
+    ]);
+  });
+
+  it('sorts by the enabled series only', () => {
+    const byUnits = transform({ groupBy: 'region', sort: 'desc' }, { labelKey: 'region', series: series('units') });
+    expect(byUnits.map(row => row.region)).toEqual(['EU', 'APAC', 'US', 'LATAM']);
+    const byPrice = transform({ groupBy: 'region', sort: 'asc' }, { labelKey: 'region', series: series('price') });
+    expect(byPrice.map(row => row.region)).toEqual(['US', 'EU', 'APAC', 'LATAM']);
+  });
+
+  it('keeps the top N in their current order and labels Other in the label column', () => {
+    const mapping = { labelKey: 'region', series: series('units') };
+    expect(transform({ groupBy: 'region', topN: 2 }, mapping)).toEqual([
+      { region: 'EU', units: 40, price: 6 },
+      { region: 'APAC', units: 8, price: 6 },
+      { region: 'Other', units: 6, price: 13 },
+    ]);
+    expect(transform({ groupBy: 'region', topN: 2, otherBucket: false }, mapping).map(row => row.region)).toEqual([
+      'EU',
+      'APAC',
+    ]);
+  });
+
+  it('rebuilds an averaged Other row from the rows it replaces', () => {
+    const other = transform({ groupBy: 'region', aggregate: 'avg', topN: 2 }, { labelKey: 'region', series: series('units') });
+    // US prices 1 and 3 and LATAM's 9 average to 13 / 3; averaging the group averages would give 5.5
+    expect(other[2]).toEqual({ region: 'Other', units: 3, price: (1 + 3 + 9) / 3 });
+  });
+
+  it('sums the plotted series of ungrouped rows into Other', () => {
+    const rows = transform({ topN: 3, sort: 'desc' }, { labelKey: 'product', series: series('units') });
+    expect(rows).toEqual([
+      { region: 'EU', product: 'B', units: 30, price: 4 },
+      { region: 'EU', product: 'A', units: 10, price: 2 },
+      { region: 'APAC', product: 'A', units: 8, price: 6 },
+      { product: 'Other', units: 6 },
+    ]);
+  });
+
+  it('ignores options naming columns that do not exist', () => {
+    expect(transform({ groupBy: 'missing', pivotSeries: 'nope' })).toEqual(sales.data);
+  });
+});
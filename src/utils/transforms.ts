@@ -0,0 +1,184 @@
+import { AggregateFn, ColumnMapping, DataObject, ParsedData, TransformOptions } from '../types';
+import { getColumns, getNumericKeys, reconcileColumnMapping, toNumber } from './columns';
+import { addComputedColumns, filterRows } from './expressions';
+
+export const defaultTransformOptions: TransformOptions = {
+  computed: [],
+  filter: '',
+  groupBy: '',
+  aggregate: 'sum',
+  pivotSeries: '',
+  pivotValue: '',
+  sort: 'none',
+  topN: 0,
+  otherBucket: true,
+};
+
+export const aggregateOptions: { value: AggregateFn; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'count', label: 'Count rows' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+];
+
+const aggregate = (values: (number | null)[], fn: AggregateFn): number | null => {
+  if (fn === 'count') return values.length;
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+  switch (fn) {
+    case 'avg':
+      return present.reduce((total, v) => total + v, 0) / present.length;
+    case 'min':
+      return Math.min(...present);
+    case 'max':
+      return Math.max(...present);
+    default:
+      return present.reduce((total, v) => total + v, 0);
+  }
+};
+
+const groupRows = (data: DataObject[], key: string) => {
+  const groups = new Map<string, DataObject[]>();
+  data.forEach(row => {
+    const group = String(row[key] ?? '');
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(row);
+  });
+  return groups;
+};
+
+// The aggregated values for one group, computed from its source rows
+const aggregateRows = (rows: DataObject[], options: TransformOptions, valueKeys: string[], seriesNames: string[]) => {
+  const { pivotSeries, pivotValue, aggregate: fn } = options;
+  const obj: DataObject = {};
+
+  if (pivotSeries) {
+    const bySeries = groupRows(rows, pivotSeries);
+    seriesNames.forEach(name => {
+      const seriesRows = bySeries.get(name) || [];
+      // Categories with no rows for a series are gaps, not zero counts
+      obj[name] = seriesRows.length === 0 ? null : aggregate(seriesRows.map(row => toNumber(row[pivotValue])), fn);
+    });
+  } else if (fn === 'count') {
+    obj.count = rows.length;
+  } else {
+    valueKeys.forEach(key => {
+      obj[key] = aggregate(rows.map(row => toNumber(row[key])), fn);
+    });
+  }
+  return obj;
+};
+
+/**
+ * Collapses rows sharing a `groupBy` value. With `pivotSeries` set, a long
+ * "category, series, value" table becomes one column per series value. Returns
+ * a function that aggregates any set of grouped rows again from their sources,
+ * so an "Other" row can be computed the same way as the rows it replaces.
+ */
+const groupAndPivot = (data: DataObject[], options: TransformOptions, valueKeys: string[]) => {
+  const { groupBy, pivotSeries } = options;
+  const seriesNames = pivotSeries ? Array.from(groupRows(data, pivotSeries).keys()) : [];
+  const sources = new Map<DataObject, DataObject[]>();
+
+  const grouped = Array.from(groupRows(data, groupBy), ([group, rows]) => {
+    const obj: DataObject = { [groupBy]: group, ...aggregateRows(rows, options, valueKeys, seriesNames) };
+    sources.set(obj, rows);
+    return obj;
+  });
+  const regroup = (rows: DataObject[]) =>
+    aggregateRows(rows.flatMap(row => sources.get(row) || []), options, valueKeys, seriesNames);
+  return { grouped, regroup };
+};
+
+const rowTotal = (row: DataObject, valueKeys: string[]) =>
+  valueKeys.reduce((total, key) => total + (toNumber(row[key]) ?? 0), 0);
+
+// Ungrouped rows are the items themselves, so what doesn't make the cut adds up
+const sumRows = (rows: DataObject[], valueKeys: string[]) => {
+  const obj: DataObject = {};
+  valueKeys.forEach(key => {
+    obj[key] = aggregate(rows.map(row => toNumber(row[key])), 'sum');
+  });
+  return obj;
+};
+
+/**
+ * Keeps the `topN` rows with the largest totals (in their current order) and
+ * optionally folds the rest into one "Other" row, built by `combine`.
+ */
+const takeTopN = (
+  data: DataObject[],
+  labelKey: string,
+  valueKeys: string[],
+  options: TransformOptions,
+  combine: (rows: DataObject[]) => DataObject
+) => {
+  const ranked = [...data].sort((a, b) => rowTotal(b, valueKeys) - rowTotal(a, valueKeys));
+  const kept = new Set(ranked.slice(0, options.topN));
+  const rest = data.filter(row => !kept.has(row));
+  const result = data.filter(row => kept.has(row));
+
+  if (options.otherBucket && rest.length > 0) {
+    result.push({ ...combine(rest), [labelKey]: 'Other' });
+  }
+  return result;
+};
+
+/**
+ * Runs between parseInput and createChartConfig: computed columns, row filter,
+ * group/aggregate, pivot, sort by value and top-N. Sorting and top-N rank rows
+ * by the enabled series of `mapping` and label "Other" in its label column.
+ * Options naming columns that don't exist are ignored; invalid expressions throw.
+ */
+export const applyTransforms = (
+  parsed: ParsedData,
+  options: TransformOptions,
+  mapping: ColumnMapping = { labelKey: '', series: [] }
+): ParsedData => {
+  if (parsed.data.length === 0) return parsed;
+  let data = filterRows(addComputedColumns(parsed.data, options.computed), options.filter);
+  if (data.length === 0) throw new Error('The row filter removed every row.');
+
+  let keys = Object.keys(data[0]);
+  const units = { ...parsed.units };
+  let regrouped: ((rows: DataObject[]) => DataObject) | null = null;
+  const groupBy = keys.includes(options.groupBy) ? options.groupBy : '';
+  const pivotSeries = groupBy && keys.includes(options.pivotSeries) && options.pivotSeries !== groupBy
+    ? options.pivotSeries
+    : '';
+
+  if (groupBy) {
+    const valueKeys = getNumericKeys(data, keys.filter(key => key !== groupBy && key !== pivotSeries));
+    const pivotValue = valueKeys.includes(options.pivotValue) ? options.pivotValue : valueKeys[0] || '';
+    const { grouped, regroup } = groupAndPivot(data, { ...options, groupBy, pivotSeries, pivotValue }, valueKeys);
+    data = grouped;
+    regrouped = regroup;
+    keys = Object.keys(data[0]);
+
+    // Pivoted columns all carry the unit of the value column they came from
+    if (pivotSeries && units[pivotValue] && options.aggregate !== 'count') {
+      keys.slice(1).forEach(key => {
+        units[key] = units[pivotValue];
+      });
+    }
+  }
+
+  const ranked = options.sort !== 'none' || (options.topN > 0 && data.length > options.topN);
+  if (!ranked) return { ...parsed, data, units };
+
+  // Rank by what the chart plots, with the mapping fitted to the columns as they are now
+  const { labelKey, series } = reconcileColumnMapping(mapping, getColumns(data));
+  const valueKeys = getNumericKeys(data, series.filter(s => s.enabled).map(s => s.key));
+
+  if (options.sort !== 'none') {
+    const direction = options.sort === 'asc' ? 1 : -1;
+    data = [...data].sort((a, b) => direction * (rowTotal(a, valueKeys) - rowTotal(b, valueKeys)));
+  }
+
+  if (options.topN > 0 && data.length > options.topN) {
+    data = takeTopN(data, labelKey, valueKeys, options, regrouped || (rows => sumRows(rows, valueKeys)));
+  }
+
+  return { ...parsed, data, units };
+};
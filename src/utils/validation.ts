@@ -0,0 +1,45 @@
+import { DataObject } from '../types';
+import { toNumber } from './columns';
+
+export const isSliceChart = (type: string) => type === 'pie' || type === 'doughnut' || type === 'polarArea';
+
+export interface ChartWarning {
+  message: string;
+  // Offer to plot just one of these columns instead of all of them.
+  pickSingleColumn?: string[];
+}
+
+/**
+ * Chart-type specific checks that don't stop the chart from rendering but
+ * usually mean it won't read well: negative or multiple series on pie-like
+ * charts and too few categories on radar charts.
+ */
+export const validateChartData = (type: string, data: DataObject[], seriesKeys: string[]): ChartWarning[] => {
+  const warnings: ChartWarning[] = [];
+
+  if (isSliceChart(type)) {
+    seriesKeys.forEach(key => {
+      const negatives = data.filter(row => (toNumber(row[key]) ?? 0) < 0).length;
+      if (negatives > 0) {
+        warnings.push({
+          message: `"${key}" has ${negatives} negative value${negatives === 1 ? '' : 's'}. Slices can't show negative amounts, so these will be misleading.`,
+        });
+      }
+    });
+
+    if (seriesKeys.length > 1) {
+      warnings.push({
+        message: type === 'polarArea'
+          ? `${seriesKeys.length} series will be drawn on top of each other. Polar area charts work best with a single column.`
+          : `${seriesKeys.length} series will render as nested rings. Pie and doughnut charts work best with a single column.`,
+        pickSingleColumn: seriesKeys,
+      });
+    }
+  }
+
+  if (type === 'radar' && data.length < 3) {
+    warnings.push({ message: 'Radar charts need at least 3 categories to form a shape.' });
+  }
+
+  return warnings;
+};
@@ -0,0 +1,19 @@
+// Third-party browser bundles that get inlined into generated pages. They are
+// imported as text so the exported HTML doesn't need to fetch them.
+import dateAdapterSource from '/node_modules/chartjs-adapter-date-fns/dist/chartjs-adapter-date-fns.bundle.min.js?raw';
+
+// Keeps a bundle from closing the <script> element it is inlined into.
+const toInlineScript = (source: string) => source.replace(/<\/script/gi, '<\\/script');
+
+export const dateAdapterScript = toInlineScript(dateAdapterSource);
+
+// jsDelivr serves npm files byte-for-byte, so the integrity hash computed from
+// the installed package matches what the browser downloads.
+export const chartJsCdnUrl = `https://cdn.jsdelivr.net/npm/chart.js@${__CHART_JS_VERSION__}/dist/chart.umd.js`;
+export const chartJsIntegrity = __CHART_JS_INTEGRITY__;
+
+// Chart.js itself is ~200 KB, so it is only loaded for self-contained exports.
+export const loadChartJsScript = async () => {
+  const { default: source } = await import('/node_modules/chart.js/dist/chart.umd.min.js?raw');
+  return toInlineScript(source);
+};
@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+// Injected by vite.config.ts from the installed chart.js package
+declare const __CHART_JS_VERSION__: string;
+declare const __CHART_JS_INTEGRITY__: string;
+
+// canvas2svg ships without types: a mock 2D context that records drawing calls as SVG
+declare module 'canvas2svg' {
+  interface SvgContext extends CanvasRenderingContext2D {
+    getSerializedSvg(fixNamedEntities?: boolean): string;
+  }
+  const C2S: new (width: number, height: number) => SvgContext;
+  export default C2S;
+}
+
+// Side-effect import that registers the date adapter with Chart.js
+declare module 'chartjs-adapter-date-fns';
@@ -0,0 +1,14 @@
+// Runs the parse -> transform -> profile -> chart pipeline off the main thread
+// so no input, however large, freezes the page. Only columns, the profile and
+// the chart config go back. The app cancels a run by terminating the worker.
+import { createChartPipeline, PipelineMessage, PipelineRequest } from '../utils/chartPipeline';
+
+const runChartPipeline = createChartPipeline();
+
+const reply = (message: PipelineMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<PipelineRequest>) => {
+  const { id, state } = event.data;
+  const result = runChartPipeline(state, stage => reply({ id, type: 'stage', stage }));
+  reply({ id, type: 'done', result });
+};
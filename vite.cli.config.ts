@@ -0,0 +1,26 @@
+import { defineConfig, mergeConfig } from 'vite';
+import baseConfig from './vite.config';
+
+// Node build of the CLI and the library entry. Shares the app config so the
+// Chart.js version/integrity defines and ?raw vendor imports behave the same.
+export default mergeConfig(
+  baseConfig,
+  defineConfig({
+    build: {
+      ssr: true,
+      outDir: 'dist-cli',
+      emptyOutDir: true,
+      target: 'node20',
+      rollupOptions: {
+        input: {
+          chartcraft: 'cli/chartcraft.ts',
+          index: 'src/lib.ts',
+        },
+        output: {
+          entryFileNames: '[name].js',
+          banner: chunk => (chunk.name === 'chartcraft' ? '#!/usr/bin/env node' : ''),
+        },
+      },
+    },
+  })
+);
@@ -1,10 +1,25 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Exported charts load this exact Chart.js build from the CDN, so its version
+// and Subresource Integrity hash are taken from the installed package.
+const chartJsVersion = JSON.parse(
+  readFileSync(new URL('./node_modules/chart.js/package.json', import.meta.url), 'utf8')
+).version;
+const chartJsIntegrity = `sha384-${createHash('sha384')
+  .update(readFileSync(new URL('./node_modules/chart.js/dist/chart.umd.js', import.meta.url)))
+  .digest('base64')}`;
+
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  define: {
+    __CHART_JS_VERSION__: JSON.stringify(chartJsVersion),
+    __CHART_JS_INTEGRITY__: JSON.stringify(chartJsIntegrity),
+  },
   base: "./",   // <--- add this
 });